@@ -0,0 +1,10 @@
+-- DropForeignKey
+ALTER TABLE "LobbyGame" DROP CONSTRAINT "LobbyGame_lobbyId_fkey";
+
+-- AlterTable
+ALTER TABLE "LobbyGame" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "archivedLobbyName" TEXT,
+ALTER COLUMN "lobbyId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "LobbyGame" ADD CONSTRAINT "LobbyGame_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "lobbyJoinedAt" TIMESTAMP(3);
+
+-- Backfill current members with the earliest time they can have joined, so
+-- they keep ranking ahead of members who join after this migration
+UPDATE "User" u
+SET "lobbyJoinedAt" = GREATEST(u."createdAt", l."createdAt")
+FROM "Lobby" l
+WHERE u."lobbyId" = l."id";
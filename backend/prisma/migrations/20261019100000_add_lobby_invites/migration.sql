@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "LobbyInvite" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LobbyInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LobbyInvite_code_key" ON "LobbyInvite"("code");
+
+-- AddForeignKey
+ALTER TABLE "LobbyInvite" ADD CONSTRAINT "LobbyInvite_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyInvite" ADD CONSTRAINT "LobbyInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
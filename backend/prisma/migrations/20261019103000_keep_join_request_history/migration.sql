@@ -0,0 +1,15 @@
+-- DropIndex
+DROP INDEX "LobbyJoinRequest_userId_lobbyId_key";
+
+-- AlterTable
+ALTER TABLE "LobbyJoinRequest" ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "decidedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "LobbyJoinRequest_userId_lobbyId_idx" ON "LobbyJoinRequest"("userId", "lobbyId");
+
+-- CreateIndex
+CREATE INDEX "LobbyJoinRequest_lobbyId_status_idx" ON "LobbyJoinRequest"("lobbyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "LobbyJoinRequest" ADD CONSTRAINT "LobbyJoinRequest_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Lobby" ADD COLUMN     "applicationQuestions" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "LobbyJoinRequest" ADD COLUMN     "answers" JSONB,
+ADD COLUMN     "message" TEXT;
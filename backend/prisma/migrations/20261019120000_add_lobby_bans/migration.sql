@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "LobbyBan" (
+    "id" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bannedById" TEXT,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LobbyBan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LobbyBan_lobbyId_userId_key" ON "LobbyBan"("lobbyId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "LobbyBan" ADD CONSTRAINT "LobbyBan_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyBan" ADD CONSTRAINT "LobbyBan_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyBan" ADD CONSTRAINT "LobbyBan_bannedById_fkey" FOREIGN KEY ("bannedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
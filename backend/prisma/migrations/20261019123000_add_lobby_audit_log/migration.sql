@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "LobbyAuditAction" AS ENUM ('LOBBY_CREATED', 'REQUEST_APPROVED', 'REQUEST_REJECTED', 'MEMBER_KICKED', 'MEMBER_BANNED', 'MEMBER_UNBANNED', 'MEMBER_LEFT', 'VISIBILITY_CHANGED', 'REPLAY_UPLOADED');
+
+-- CreateTable
+CREATE TABLE "LobbyAuditLog" (
+    "id" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "action" "LobbyAuditAction" NOT NULL,
+    "actorId" TEXT,
+    "targetUserId" TEXT,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LobbyAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LobbyAuditLog_lobbyId_createdAt_idx" ON "LobbyAuditLog"("lobbyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LobbyAuditLog" ADD CONSTRAINT "LobbyAuditLog_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyAuditLog" ADD CONSTRAINT "LobbyAuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyAuditLog" ADD CONSTRAINT "LobbyAuditLog_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "LobbyChatMessage" (
+    "id" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "content" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LobbyChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LobbyChatMessage_lobbyId_createdAt_idx" ON "LobbyChatMessage"("lobbyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LobbyChatMessage" ADD CONSTRAINT "LobbyChatMessage_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyChatMessage" ADD CONSTRAINT "LobbyChatMessage_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "LobbyJoinPolicy" AS ENUM ('OPEN', 'APPROVAL', 'INVITE_ONLY', 'PASSWORD');
+
+-- AlterEnum
+ALTER TYPE "LobbyAuditAction" ADD VALUE 'JOIN_POLICY_CHANGED';
+
+-- AlterTable
+ALTER TABLE "Lobby" ADD COLUMN     "joinPasswordHash" TEXT,
+ADD COLUMN     "joinPolicy" "LobbyJoinPolicy" NOT NULL DEFAULT 'APPROVAL';
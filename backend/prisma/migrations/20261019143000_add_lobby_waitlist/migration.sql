@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "RequestStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WAITLIST_OFFER';
+
+-- AlterTable
+ALTER TABLE "Lobby" ADD COLUMN     "waitlistAutoAdmit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "LobbyWaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "LobbyWaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LobbyWaitlistEntry_lobbyId_createdAt_idx" ON "LobbyWaitlistEntry"("lobbyId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LobbyWaitlistEntry_lobbyId_userId_key" ON "LobbyWaitlistEntry"("lobbyId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "LobbyWaitlistEntry" ADD CONSTRAINT "LobbyWaitlistEntry_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyWaitlistEntry" ADD CONSTRAINT "LobbyWaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
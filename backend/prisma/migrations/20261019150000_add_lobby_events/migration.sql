@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "RsvpStatus" AS ENUM ('GOING', 'MAYBE', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "LobbyGame" ADD COLUMN     "eventId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LobbyEvent" (
+    "id" TEXT NOT NULL,
+    "lobbyId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "expectedPlayers" INTEGER NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "reminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LobbyEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LobbyEventRsvp" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "RsvpStatus" NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LobbyEventRsvp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LobbyEvent_lobbyId_startsAt_idx" ON "LobbyEvent"("lobbyId", "startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LobbyEventRsvp_eventId_userId_key" ON "LobbyEventRsvp"("eventId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "LobbyGame" ADD CONSTRAINT "LobbyGame_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "LobbyEvent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyEvent" ADD CONSTRAINT "LobbyEvent_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyEvent" ADD CONSTRAINT "LobbyEvent_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyEventRsvp" ADD CONSTRAINT "LobbyEventRsvp_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "LobbyEvent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LobbyEventRsvp" ADD CONSTRAINT "LobbyEventRsvp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "RequestStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "RequestStatus" ADD VALUE 'SUPERSEDED';
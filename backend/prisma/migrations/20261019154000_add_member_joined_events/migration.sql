@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LobbyAuditAction" ADD VALUE 'MEMBER_JOINED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'MEMBER_JOINED';
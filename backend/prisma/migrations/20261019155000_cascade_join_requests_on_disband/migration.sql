@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "LobbyJoinRequest" DROP CONSTRAINT "LobbyJoinRequest_lobbyId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "LobbyJoinRequest" ADD CONSTRAINT "LobbyJoinRequest_lobbyId_fkey" FOREIGN KEY ("lobbyId") REFERENCES "Lobby"("id") ON DELETE CASCADE ON UPDATE CASCADE;
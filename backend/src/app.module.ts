@@ -11,6 +11,7 @@ import { throttlerConfig } from './throttler/throttler.config';
 import { HealthModule } from './health/health.module';
 import { MetricsModule } from './metrics/metrics.module';
 import { ScheduleModule } from '@nestjs/schedule';
+import { NotificationsModule } from './notifications/notifications.module';
 
 @Module({
   imports: [
@@ -29,6 +30,7 @@ import { ScheduleModule } from '@nestjs/schedule';
     UsersModule,
     ReplayModule,
     LobbyModule,
+    NotificationsModule,
     HealthModule,
     MetricsModule,
   ],
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LobbyAuditAction } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let prismaService: jest.Mocked<PrismaService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: PrismaService,
+          useValue: {
+            lobbyAuditLog: {
+              create: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+    prismaService = module.get(PrismaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('should append an entry to the audit log', async () => {
+      await service.record({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.MEMBER_KICKED,
+        actorId: 'owner1',
+        targetUserId: 'member1',
+      });
+
+      expect(prismaService.lobbyAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          lobbyId: 'lobby1',
+          action: LobbyAuditAction.MEMBER_KICKED,
+          actorId: 'owner1',
+          targetUserId: 'member1',
+          payload: undefined,
+        },
+      });
+    });
+
+    it('should not throw when the entry cannot be written', async () => {
+      (prismaService.lobbyAuditLog.create as jest.Mock).mockRejectedValueOnce(
+        new Error('Database unavailable'),
+      );
+
+      await expect(
+        service.record({
+          lobbyId: 'lobby1',
+          action: LobbyAuditAction.MEMBER_LEFT,
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getLobbyAuditLog', () => {
+    it('should apply filters and return the next cursor', async () => {
+      const from = new Date('2026-10-01T00:00:00Z');
+      (prismaService.lobbyAuditLog.findMany as jest.Mock).mockResolvedValueOnce(
+        [{ id: 'entry1' }, { id: 'entry2' }],
+      );
+
+      const result = await service.getLobbyAuditLog('lobby1', {
+        action: LobbyAuditAction.REQUEST_APPROVED,
+        actorId: 'owner1',
+        from,
+        limit: 1,
+      });
+
+      expect(result).toEqual({
+        items: [{ id: 'entry1' }],
+        nextCursor: 'entry1',
+      });
+      expect(prismaService.lobbyAuditLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            lobbyId: 'lobby1',
+            action: LobbyAuditAction.REQUEST_APPROVED,
+            actorId: 'owner1',
+            createdAt: { gte: from },
+          },
+          take: 2,
+        }),
+      );
+    });
+  });
+});
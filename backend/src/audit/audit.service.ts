@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PaginatedResult } from 'src/lobby/types/lobby.types';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { LobbyAuditEntry } from './types/audit.types';
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+const AUDIT_USER_SELECT = {
+  id: true,
+  username: true,
+  avatar: true,
+} satisfies Prisma.UserSelect;
+
+type LobbyAuditLogWithUsers = Prisma.LobbyAuditLogGetPayload<{
+  include: {
+    actor: { select: typeof AUDIT_USER_SELECT };
+    targetUser: { select: typeof AUDIT_USER_SELECT };
+  };
+}>;
+
+/**
+ * Audit Service
+ *
+ * Maintains the append-only audit log of lobby membership and
+ * moderation actions. Entries are only ever created and read.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Appends an entry to a lobby's audit log. Failures are logged rather
+   * than thrown so that auditing never undoes the action it records.
+   * @param entry The action, actor, target and payload to record.
+   */
+  async record(entry: LobbyAuditEntry): Promise<void> {
+    try {
+      await this.prismaService.lobbyAuditLog.create({
+        data: {
+          lobbyId: entry.lobbyId,
+          action: entry.action,
+          actorId: entry.actorId ?? null,
+          targetUserId: entry.targetUserId ?? null,
+          payload: entry.payload,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${entry.action} for lobby ${entry.lobbyId}: ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a lobby's audit log, newest first.
+   * @param lobbyId The lobby ID.
+   * @param query Optional action, actor, target and date filters with pagination.
+   * @returns A page of audit entries with actor and target info.
+   */
+  async getLobbyAuditLog(
+    lobbyId: string,
+    query: AuditLogQueryDto,
+  ): Promise<PaginatedResult<LobbyAuditLogWithUsers>> {
+    const limit = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+
+    const where: Prisma.LobbyAuditLogWhereInput = {
+      lobbyId,
+      ...(query.action && { action: query.action }),
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.targetUserId && { targetUserId: query.targetUserId }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const entries = await this.prismaService.lobbyAuditLog.findMany({
+      where,
+      include: {
+        actor: { select: AUDIT_USER_SELECT },
+        targetUser: { select: AUDIT_USER_SELECT },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = entries.length > limit;
+    const items = hasMore ? entries.slice(0, limit) : entries;
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+}
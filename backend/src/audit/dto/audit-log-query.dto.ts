@@ -0,0 +1,43 @@
+import { LobbyAuditAction } from '@prisma/client';
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class AuditLogQueryDto {
+  @IsEnum(LobbyAuditAction)
+  @IsOptional()
+  action?: LobbyAuditAction;
+
+  @IsString()
+  @IsOptional()
+  actorId?: string;
+
+  @IsString()
+  @IsOptional()
+  targetUserId?: string;
+
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,12 @@
+import { LobbyAuditAction, Prisma } from '@prisma/client';
+
+/**
+ * A single action to append to a lobby's audit log.
+ */
+export type LobbyAuditEntry = {
+  lobbyId: string;
+  action: LobbyAuditAction;
+  actorId?: string | null;
+  targetUserId?: string | null;
+  payload?: Prisma.InputJsonObject;
+};
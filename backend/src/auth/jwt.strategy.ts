@@ -7,9 +7,11 @@ import { UsersService } from 'src/users/users.service';
 import { UserWithLobbyRelations } from 'src/users/types/user.types';
 
 // Define a return type for the validation
-interface JwtPayload {
+export interface JwtPayload {
   sub: string; // or userId
   steamId: string;
+  username?: string | null;
+  exp?: number; // Expiry as seconds since the epoch, set by signAsync
 }
 
 // Create an interface for the request with cookies
@@ -10,6 +10,7 @@ export const createMockUser = (
   username: 'testuser',
   avatar: 'avatar-url',
   lobbyId: null,
+  lobbyJoinedAt: null,
   role: UserRole.MEMBER,
   createdAt: new Date(),
   updatedAt: new Date(),
@@ -43,7 +43,7 @@ export class HealthController {
 
   /**
    * Detailed system check endpoint
-   * @description Comprehensive health check including system resources
+   * @description Comprehensive health check including system resources and the replay parser
    * @returns {Promise<HealthCheckResponseDto>} Detailed health status
    * @public
    */
@@ -51,7 +51,8 @@ export class HealthController {
   @HealthCheck()
   @ApiOperation({
     summary: 'Detailed System Check',
-    description: 'Comprehensive health check including system resources',
+    description:
+      'Comprehensive health check including system resources and the replay parser',
   })
   @ApiResponse({
     status: 200,
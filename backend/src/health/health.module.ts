@@ -8,6 +8,7 @@ import { MemoryHealthIndicator } from '@nestjs/terminus';
 import { PrismaHealthIndicator } from './prisma.health';
 import { HealthService } from './health.service';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ReplayModule } from '../replay/replay.module';
 
 @Module({
   imports: [
@@ -16,6 +17,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
     RedisModule,
     PrismaModule,
     ConfigModule,
+    ReplayModule,
   ],
   controllers: [HealthController],
   providers: [
@@ -8,6 +8,7 @@ import {
 } from '@nestjs/terminus';
 import { RedisProvider } from '../redis/redis.provider';
 import { PrismaHealthIndicator } from './prisma.health';
+import { ReplayParser } from '../replay/parsers/replay-parser';
 import {
   HealthStatus,
   HealthCheckResponseDto,
@@ -33,6 +34,7 @@ export class HealthService {
     private readonly redis: RedisProvider,
     private readonly memory: MemoryHealthIndicator,
     private readonly prisma: PrismaHealthIndicator,
+    private readonly replayParser: ReplayParser,
     @Inject('HEALTH_CHECK_CONFIG')
     private readonly config: HealthCheckConfig,
   ) {}
@@ -69,6 +71,7 @@ export class HealthService {
       () => this.prisma.isHealthy('database'),
       () => this.memory.checkHeap('memory_heap', this.config.memoryThreshold),
       this.createRedisCheck(),
+      this.createReplayParserCheck(),
       this.checkDependencies(),
     ]);
   }
@@ -126,6 +129,31 @@ export class HealthService {
     };
   }
 
+  private createReplayParserCheck(): HealthIndicatorFunction {
+    return async () => {
+      try {
+        return {
+          replay_parser: {
+            status: HealthStatus.UP,
+            ...(await this.replayParser.checkHealth()),
+            timestamp: new Date().toISOString(),
+          },
+        };
+      } catch (error) {
+        return {
+          replay_parser: {
+            status: HealthStatus.DOWN,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Replay parser check failed',
+            timestamp: new Date().toISOString(),
+          },
+        };
+      }
+    };
+  }
+
   private checkDependencies(): HealthIndicatorFunction {
     return () => ({
       dependencies: {
@@ -0,0 +1,32 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Optional details recorded with a lobby ban.
+ */
+export class BanDetailsDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+
+  /** Ban duration; the ban is permanent when omitted. */
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(8760)
+  expiresInHours?: number;
+}
+
+export class BanUserDto extends BanDetailsDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+}
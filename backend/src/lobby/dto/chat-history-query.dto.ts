@@ -0,0 +1,13 @@
+import { IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+export class ChatHistoryQueryDto {
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,33 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  MAX_APPLICATION_ANSWER_LENGTH,
+  MAX_APPLICATION_QUESTIONS,
+  MAX_JOIN_PASSWORD_LENGTH,
+} from '../lobby.constants';
+
+export class CreateJoinRequestDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_APPLICATION_ANSWER_LENGTH)
+  message?: string;
+
+  /** Answers in the same order as the lobby's application questions. */
+  @IsArray()
+  @IsOptional()
+  @ArrayMaxSize(MAX_APPLICATION_QUESTIONS)
+  @IsString({ each: true })
+  @MaxLength(MAX_APPLICATION_ANSWER_LENGTH, { each: true })
+  answers?: string[];
+
+  /** Passphrase of a PASSWORD lobby. */
+  @IsString()
+  @IsOptional()
+  @MaxLength(MAX_JOIN_PASSWORD_LENGTH)
+  password?: string;
+}
@@ -0,0 +1,35 @@
+import {
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class CreateLobbyEventDto {
+  @IsString()
+  @MinLength(3)
+  @MaxLength(100)
+  title: string;
+
+  @IsDate()
+  startsAt: Date;
+
+  /** Defaults to DEFAULT_EVENT_DURATION_MINUTES after the start. */
+  @IsDate()
+  @IsOptional()
+  endsAt?: Date;
+
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  expectedPlayers: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  notes?: string;
+}
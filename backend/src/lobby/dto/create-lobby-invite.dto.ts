@@ -0,0 +1,15 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class CreateLobbyInviteDto {
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(720)
+  expiresInHours?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  maxUses?: number;
+}
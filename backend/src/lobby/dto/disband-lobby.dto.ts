@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+
+/**
+ * What happens to a lobby's recorded games when it is disbanded.
+ */
+export enum DisbandGamesAction {
+  ARCHIVE = 'archive',
+  DELETE = 'delete',
+}
+
+export class DisbandLobbyDto {
+  @IsEnum(DisbandGamesAction)
+  @IsOptional()
+  gamesAction?: DisbandGamesAction;
+}
@@ -0,0 +1,18 @@
+import { RequestStatus } from '@prisma/client';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+export class JoinRequestHistoryQueryDto {
+  @IsEnum(RequestStatus)
+  @IsOptional()
+  status?: RequestStatus;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
@@ -0,0 +1,55 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Sort options available for the public lobby listing.
+ */
+export enum LobbySort {
+  NEWEST = 'newest',
+  MOST_ACTIVE = 'mostActive',
+  MOST_MEMBERS = 'mostMembers',
+}
+
+export class ListLobbiesQueryDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  search?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  minMembers?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  maxMembers?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  minFreeSlots?: number;
+
+  @IsEnum(LobbySort)
+  @IsOptional()
+  sort?: LobbySort;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
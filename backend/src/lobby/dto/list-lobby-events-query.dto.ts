@@ -0,0 +1,29 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class ListLobbyEventsQueryDto {
+  /** List events that already ended, most recent first, instead of upcoming ones. */
+  @Transform(({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+    [true, 'true'].includes(obj[key] as boolean | string),
+  )
+  @IsBoolean()
+  @IsOptional()
+  past?: boolean;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,7 @@
+import { RsvpStatus } from '@prisma/client';
+import { IsEnum } from 'class-validator';
+
+export class LobbyEventRsvpDto {
+  @IsEnum(RsvpStatus)
+  status: RsvpStatus;
+}
@@ -0,0 +1,9 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { BanDetailsDto } from './ban-user.dto';
+
+export class RemoveMemberDto extends BanDetailsDto {
+  /** Also ban the member so they cannot re-apply. */
+  @IsBoolean()
+  @IsOptional()
+  ban?: boolean;
+}
@@ -0,0 +1,37 @@
+import {
+  IsDate,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class UpdateLobbyEventDto {
+  @IsString()
+  @IsOptional()
+  @MinLength(3)
+  @MaxLength(100)
+  title?: string;
+
+  @IsDate()
+  @IsOptional()
+  startsAt?: Date;
+
+  @IsDate()
+  @IsOptional()
+  endsAt?: Date;
+
+  @IsInt()
+  @IsOptional()
+  @Min(2)
+  @Max(100)
+  expectedPlayers?: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  notes?: string;
+}
@@ -0,0 +1,66 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { LobbyJoinPolicy } from '@prisma/client';
+import {
+  MAX_APPLICATION_QUESTIONS,
+  MAX_JOIN_PASSWORD_LENGTH,
+  MIN_JOIN_PASSWORD_LENGTH,
+} from '../lobby.constants';
+
+export class UpdateLobbyDto {
+  @IsString()
+  @IsOptional()
+  @MinLength(3)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MinLength(5)
+  @MaxLength(50)
+  description?: string;
+
+  @IsString()
+  @IsOptional()
+  imageUrl?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  capacity?: number;
+
+  @IsArray()
+  @IsOptional()
+  @ArrayMaxSize(MAX_APPLICATION_QUESTIONS)
+  @IsString({ each: true })
+  @MinLength(3, { each: true })
+  @MaxLength(200, { each: true })
+  applicationQuestions?: string[];
+
+  @IsEnum(LobbyJoinPolicy)
+  @IsOptional()
+  joinPolicy?: LobbyJoinPolicy;
+
+  /** Passphrase for PASSWORD lobbies, required when switching to that policy. */
+  @IsString()
+  @IsOptional()
+  @MinLength(MIN_JOIN_PASSWORD_LENGTH)
+  @MaxLength(MAX_JOIN_PASSWORD_LENGTH)
+  joinPassword?: string;
+
+  /** Admit waitlisted users as slots free up instead of offering them the slot. */
+  @IsBoolean()
+  @IsOptional()
+  waitlistAutoAdmit?: boolean;
+}
@@ -1,8 +1,12 @@
 import { z } from 'zod';
+import {
+  MAX_APPLICATION_ANSWER_LENGTH,
+  MAX_CHAT_MESSAGE_LENGTH,
+} from '../lobby.constants';
 
 export const joinRequestSchema = z.object({
   lobbyId: z.string().uuid(),
-  message: z.string().optional(),
+  message: z.string().max(MAX_APPLICATION_ANSWER_LENGTH).optional(),
 });
 
 export type JoinRequestDto = z.infer<typeof joinRequestSchema>;
@@ -14,3 +18,31 @@ export const requestResponseSchema = z.object({
 });
 
 export type RequestResponseDto = z.infer<typeof requestResponseSchema>;
+
+const chatContentSchema = z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH);
+
+export const chatMessageSchema = z.object({
+  lobbyId: z.string().uuid(),
+  content: chatContentSchema,
+});
+
+export type ChatMessageDto = z.infer<typeof chatMessageSchema>;
+
+export const chatEditSchema = z.object({
+  messageId: z.string().uuid(),
+  content: chatContentSchema,
+});
+
+export type ChatEditDto = z.infer<typeof chatEditSchema>;
+
+export const chatDeleteSchema = z.object({
+  messageId: z.string().uuid(),
+});
+
+export type ChatDeleteDto = z.infer<typeof chatDeleteSchema>;
+
+export const presenceUpdateSchema = z.object({
+  status: z.enum(['online', 'away', 'in-game']),
+});
+
+export type PresenceUpdateDto = z.infer<typeof presenceUpdateSchema>;
@@ -0,0 +1,59 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuthenticatedRequest } from 'src/auth/auth-request.interface';
+
+/**
+ * Lobby Management Verification Guard
+ *
+ * Ensures only the owner or an admin of a lobby can perform management operations by:
+ * - Validating lobby existence
+ * - Verifying requestor's ownership or admin membership
+ *
+ * Used to protect endpoints shared by owners and admins (e.g. invites)
+ */
+@Injectable()
+export class IsLobbyAdminGuard implements CanActivate {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Ownership/admin verification logic
+   * @param context - Execution context containing request details
+   * @returns boolean confirming management rights
+   * @throws ForbiddenException if verification fails
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+    const lobbyId = request.params.lobbyId;
+
+    // Fetch lobby ownership information
+    const lobby = await this.prisma.lobby.findUnique({
+      where: { id: lobbyId },
+      select: { ownerId: true }, // Only select needed field
+    });
+
+    // Verify lobby exists
+    if (!lobby) {
+      throw new ForbiddenException('Lobby not found.');
+    }
+
+    // Verify requesting user is the owner or an admin of this lobby
+    const isOwner = lobby.ownerId === user.id;
+    const isAdminMember =
+      user.lobbyId === lobbyId && user.role === UserRole.ADMIN;
+
+    if (!isOwner && !isAdminMember) {
+      throw new ForbiddenException(
+        'You must be the owner or an admin of this lobby.',
+      );
+    }
+
+    return true;
+  }
+}
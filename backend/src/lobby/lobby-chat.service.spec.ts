@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LobbyChatService } from './lobby-chat.service';
+
+const mockMessage = {
+  id: 'message1',
+  lobbyId: 'lobby1',
+  authorId: 'author1',
+  content: 'Hello team',
+  editedAt: null,
+  createdAt: new Date(),
+};
+
+describe('LobbyChatService', () => {
+  let service: LobbyChatService;
+  let prismaService: jest.Mocked<PrismaService>;
+
+  /**
+   * Resolves the user lookup used by the membership check.
+   */
+  const mockMembership = (
+    lobbyId: string | null,
+    role: UserRole = UserRole.MEMBER,
+  ) =>
+    (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+      lobbyId,
+      role,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LobbyChatService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: { findUnique: jest.fn() },
+            lobbyChatMessage: {
+              findUnique: jest.fn().mockResolvedValue(mockMessage),
+              findMany: jest.fn(),
+              create: jest.fn().mockResolvedValue(mockMessage),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LobbyChatService>(LobbyChatService);
+    prismaService = module.get(PrismaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  //#region sendMessage
+  describe('sendMessage', () => {
+    it('should store a message from a lobby member', async () => {
+      mockMembership('lobby1');
+
+      const result = await service.sendMessage(
+        'lobby1',
+        'author1',
+        'Hello team',
+      );
+
+      expect(result).toEqual(mockMessage);
+      expect(prismaService.lobbyChatMessage.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            lobbyId: 'lobby1',
+            authorId: 'author1',
+            content: 'Hello team',
+          },
+        }),
+      );
+    });
+
+    it('should throw if the author is not a member', async () => {
+      mockMembership('other-lobby');
+
+      await expect(
+        service.sendMessage('lobby1', 'author1', 'Hello'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.lobbyChatMessage.create).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region editMessage / deleteMessage
+  describe('editMessage', () => {
+    it('should let the author edit their message', async () => {
+      mockMembership('lobby1');
+
+      await service.editMessage('message1', 'author1', 'Edited');
+
+      expect(prismaService.lobbyChatMessage.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'message1' },
+          data: { content: 'Edited', editedAt: expect.any(Date) },
+        }),
+      );
+    });
+
+    it('should throw if the user is not the author', async () => {
+      await expect(
+        service.editMessage('message1', 'someone-else', 'Edited'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw if the message does not exist', async () => {
+      (
+        prismaService.lobbyChatMessage.findUnique as jest.Mock
+      ).mockResolvedValueOnce(null);
+
+      await expect(
+        service.editMessage('missing', 'author1', 'Edited'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should let an admin delete another member message', async () => {
+      mockMembership('lobby1', UserRole.ADMIN);
+
+      const result = await service.deleteMessage('message1', 'admin1');
+
+      expect(result).toEqual({ id: 'message1', lobbyId: 'lobby1' });
+      expect(prismaService.lobbyChatMessage.delete).toHaveBeenCalledWith({
+        where: { id: 'message1' },
+      });
+    });
+
+    it('should throw if a regular member deletes another member message', async () => {
+      mockMembership('lobby1');
+
+      await expect(
+        service.deleteMessage('message1', 'member2'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.lobbyChatMessage.delete).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region getHistory
+  describe('getHistory', () => {
+    it('should return a page of messages and the next cursor', async () => {
+      mockMembership('lobby1');
+      (
+        prismaService.lobbyChatMessage.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        mockMessage,
+        { ...mockMessage, id: 'message2' },
+      ]);
+
+      const result = await service.getHistory('lobby1', 'author1', {
+        limit: 1,
+      });
+
+      expect(result).toEqual({ items: [mockMessage], nextCursor: 'message1' });
+    });
+
+    it('should throw if the reader is not a member', async () => {
+      mockMembership(null);
+
+      await expect(
+        service.getHistory('lobby1', 'outsider', {}),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+  //#endregion
+});
@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { ChatHistoryQueryDto } from './dto/chat-history-query.dto';
+import { PaginatedResult } from './types/lobby.types';
+
+const DEFAULT_CHAT_PAGE_SIZE = 50;
+
+const CHAT_MESSAGE_INCLUDE = {
+  author: { select: { id: true, username: true, avatar: true } },
+} satisfies Prisma.LobbyChatMessageInclude;
+
+export type LobbyChatMessageWithAuthor = Prisma.LobbyChatMessageGetPayload<{
+  include: typeof CHAT_MESSAGE_INCLUDE;
+}>;
+
+/**
+ * Lobby Chat Service
+ *
+ * Persists lobby chat messages and enforces who may read, edit
+ * and delete them. Delivery is handled by LobbyGateway.
+ */
+@Injectable()
+export class LobbyChatService {
+  private readonly logger = new Logger(LobbyChatService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Handles and logs unexpected service-level errors.
+   * @param error The caught exception.
+   * @param context A string indicating which method triggered the error.
+   * @throws BadRequestException for unexpected errors.
+   */
+  private handleServiceError(error: unknown, context: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+
+    this.logger.error(
+      `Unexpected error during "${context}": ${
+        error instanceof Error ? error.stack : String(error)
+      }`,
+    );
+
+    throw new BadRequestException(
+      `An unexpected error occurred while trying to ${context}. Please try again later.`,
+    );
+  }
+
+  /**
+   * Verifies that a user is currently a member of a lobby.
+   * @param lobbyId The lobby ID.
+   * @param userId The user ID.
+   * @returns The member's role.
+   * @throws ForbiddenException if the user is not a member.
+   */
+  private async assertMember(
+    lobbyId: string,
+    userId: string,
+  ): Promise<UserRole> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      select: { lobbyId: true, role: true },
+    });
+
+    if (!user || user.lobbyId !== lobbyId) {
+      throw new ForbiddenException('Only lobby members can use the lobby chat');
+    }
+
+    return user.role;
+  }
+
+  /**
+   * Stores a new chat message from a lobby member.
+   * @param lobbyId The lobby ID.
+   * @param authorId The author's user ID.
+   * @param content The message text.
+   * @returns The stored message with its author.
+   */
+  async sendMessage(
+    lobbyId: string,
+    authorId: string,
+    content: string,
+  ): Promise<LobbyChatMessageWithAuthor> {
+    try {
+      await this.assertMember(lobbyId, authorId);
+
+      return await this.prismaService.lobbyChatMessage.create({
+        data: { lobbyId, authorId, content },
+        include: CHAT_MESSAGE_INCLUDE,
+      });
+    } catch (error) {
+      this.handleServiceError(error, 'send chat message');
+    }
+  }
+
+  /**
+   * Edits a chat message. Only its author may edit it.
+   * @param messageId The message ID.
+   * @param userId The user editing the message.
+   * @param content The new message text.
+   * @returns The updated message with its author.
+   */
+  async editMessage(
+    messageId: string,
+    userId: string,
+    content: string,
+  ): Promise<LobbyChatMessageWithAuthor> {
+    try {
+      const message = await this.prismaService.lobbyChatMessage.findUnique({
+        where: { id: messageId },
+      });
+
+      if (!message) {
+        throw new NotFoundException('Message not found');
+      }
+
+      if (message.authorId !== userId) {
+        throw new ForbiddenException('Only the author can edit this message');
+      }
+
+      await this.assertMember(message.lobbyId, userId);
+
+      return await this.prismaService.lobbyChatMessage.update({
+        where: { id: messageId },
+        data: { content, editedAt: new Date() },
+        include: CHAT_MESSAGE_INCLUDE,
+      });
+    } catch (error) {
+      this.handleServiceError(error, 'edit chat message');
+    }
+  }
+
+  /**
+   * Deletes a chat message. The author, the lobby owner and admins may delete it.
+   * @param messageId The message ID.
+   * @param userId The user deleting the message.
+   * @returns The lobby the deleted message belonged to.
+   */
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+  ): Promise<{ id: string; lobbyId: string }> {
+    try {
+      const message = await this.prismaService.lobbyChatMessage.findUnique({
+        where: { id: messageId },
+      });
+
+      if (!message) {
+        throw new NotFoundException('Message not found');
+      }
+
+      const role = await this.assertMember(message.lobbyId, userId);
+
+      if (message.authorId !== userId && role === UserRole.MEMBER) {
+        throw new ForbiddenException(
+          'Only the author, the owner or admins can delete this message',
+        );
+      }
+
+      await this.prismaService.lobbyChatMessage.delete({
+        where: { id: messageId },
+      });
+
+      return { id: message.id, lobbyId: message.lobbyId };
+    } catch (error) {
+      this.handleServiceError(error, 'delete chat message');
+    }
+  }
+
+  /**
+   * Retrieves a lobby's chat history, newest first.
+   * @param lobbyId The lobby ID.
+   * @param userId The member reading the history.
+   * @param query Pagination cursor and page size.
+   * @returns A page of messages with their authors.
+   */
+  async getHistory(
+    lobbyId: string,
+    userId: string,
+    query: ChatHistoryQueryDto,
+  ): Promise<PaginatedResult<LobbyChatMessageWithAuthor>> {
+    try {
+      await this.assertMember(lobbyId, userId);
+
+      const limit = query.limit ?? DEFAULT_CHAT_PAGE_SIZE;
+
+      const messages = await this.prismaService.lobbyChatMessage.findMany({
+        where: { lobbyId },
+        include: CHAT_MESSAGE_INCLUDE,
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      });
+
+      const hasMore = messages.length > limit;
+      const items = hasMore ? messages.slice(0, limit) : messages;
+
+      return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1].id : null,
+      };
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve chat history');
+    }
+  }
+}
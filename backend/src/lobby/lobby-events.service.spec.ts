@@ -0,0 +1,250 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LobbyEvent, RsvpStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { UserWithLobbyRelations } from 'src/users/types/user.types';
+import { LobbyGateway } from './lobby.gateway';
+import { LobbyEventsService } from './lobby-events.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const createMockEvent = (overrides: Partial<LobbyEvent> = {}): LobbyEvent => ({
+  id: 'event1',
+  lobbyId: 'lobby1',
+  title: 'Friday inhouse',
+  startsAt: new Date(Date.now() + HOUR_MS),
+  endsAt: new Date(Date.now() + 4 * HOUR_MS),
+  expectedPlayers: 10,
+  notes: null,
+  createdById: 'user1',
+  reminderSentAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const mockUser = {
+  id: 'user1',
+  username: 'Organizer',
+  lobbyId: 'lobby1',
+} as UserWithLobbyRelations;
+
+describe('LobbyEventsService', () => {
+  let service: LobbyEventsService;
+  let prismaService: jest.Mocked<PrismaService>;
+  let lobbyGateway: jest.Mocked<LobbyGateway>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LobbyEventsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            lobbyEvent: {
+              create: jest.fn().mockResolvedValue(createMockEvent()),
+              findFirst: jest.fn().mockResolvedValue(createMockEvent()),
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn().mockResolvedValue(createMockEvent()),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              delete: jest.fn(),
+            },
+            lobbyEventRsvp: {
+              upsert: jest.fn().mockResolvedValue({ status: RsvpStatus.GOING }),
+            },
+          },
+        },
+        {
+          provide: LobbyGateway,
+          useValue: {
+            notifyEventScheduled: jest.fn(),
+            notifyEventUpdated: jest.fn(),
+            notifyEventCancelled: jest.fn(),
+            notifyEventRsvp: jest.fn(),
+            notifyEventReminder: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LobbyEventsService>(LobbyEventsService);
+    prismaService = module.get(PrismaService);
+    lobbyGateway = module.get(LobbyGateway);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createEvent', () => {
+    it('should default the end time and announce the event', async () => {
+      const startsAt = new Date(Date.now() + HOUR_MS);
+
+      await service.createEvent('lobby1', mockUser, {
+        title: ' Friday inhouse ',
+        startsAt,
+        expectedPlayers: 10,
+      });
+
+      expect(prismaService.lobbyEvent.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            lobbyId: 'lobby1',
+            title: 'Friday inhouse',
+            startsAt,
+            endsAt: new Date(startsAt.getTime() + 3 * HOUR_MS),
+            expectedPlayers: 10,
+            notes: null,
+            createdById: 'user1',
+          },
+        }),
+      );
+      expect(lobbyGateway.notifyEventScheduled).toHaveBeenCalledWith(
+        'lobby1',
+        expect.objectContaining({ id: 'event1' }),
+      );
+    });
+
+    it('should reject events that start in the past', async () => {
+      await expect(
+        service.createEvent('lobby1', mockUser, {
+          title: 'Too late',
+          startsAt: new Date(Date.now() - HOUR_MS),
+          expectedPlayers: 10,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobbyEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject events that end before they start', async () => {
+      const startsAt = new Date(Date.now() + 2 * HOUR_MS);
+
+      await expect(
+        service.createEvent('lobby1', mockUser, {
+          title: 'Backwards',
+          startsAt,
+          endsAt: new Date(startsAt.getTime() - HOUR_MS),
+          expectedPlayers: 10,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateEvent', () => {
+    it('should re-arm the reminder when the start time moves', async () => {
+      const startsAt = new Date(Date.now() + 2 * HOUR_MS);
+
+      await service.updateEvent('lobby1', 'event1', { startsAt });
+
+      expect(prismaService.lobbyEvent.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'event1' },
+          data: { startsAt, reminderSentAt: null },
+        }),
+      );
+      expect(lobbyGateway.notifyEventUpdated).toHaveBeenCalled();
+    });
+
+    it('should not change events that are over', async () => {
+      (prismaService.lobbyEvent.findFirst as jest.Mock).mockResolvedValueOnce(
+        createMockEvent({ endsAt: new Date(Date.now() - HOUR_MS) }),
+      );
+
+      await expect(
+        service.updateEvent('lobby1', 'event1', { title: 'Renamed' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobbyEvent.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listEvents', () => {
+    it('should list past events most recent first', async () => {
+      await service.listEvents('lobby1', mockUser, { past: true, limit: 5 });
+
+      expect(prismaService.lobbyEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { lobbyId: 'lobby1', endsAt: { lt: expect.any(Date) } },
+          orderBy: [{ startsAt: 'desc' }, { id: 'asc' }],
+          take: 6,
+        }),
+      );
+    });
+
+    it('should reject users outside the lobby', async () => {
+      await expect(service.listEvents('lobby2', mockUser, {})).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('rsvp', () => {
+    it('should store the answer and share it with the lobby', async () => {
+      await service.rsvp('lobby1', 'event1', mockUser, RsvpStatus.MAYBE);
+
+      expect(prismaService.lobbyEventRsvp.upsert).toHaveBeenCalledWith({
+        where: { eventId_userId: { eventId: 'event1', userId: 'user1' } },
+        create: {
+          eventId: 'event1',
+          userId: 'user1',
+          status: RsvpStatus.MAYBE,
+        },
+        update: { status: RsvpStatus.MAYBE },
+      });
+      expect(lobbyGateway.notifyEventRsvp).toHaveBeenCalledWith(
+        'lobby1',
+        'event1',
+        'user1',
+        'Organizer',
+        RsvpStatus.MAYBE,
+      );
+    });
+
+    it('should reject answers to events that are over', async () => {
+      (prismaService.lobbyEvent.findFirst as jest.Mock).mockResolvedValueOnce(
+        createMockEvent({ endsAt: new Date(Date.now() - HOUR_MS) }),
+      );
+
+      await expect(
+        service.rsvp('lobby1', 'event1', mockUser, RsvpStatus.GOING),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('sendEventReminders', () => {
+    it('should remind each lobby once per claimed event', async () => {
+      (prismaService.lobbyEvent.findMany as jest.Mock).mockResolvedValueOnce([
+        createMockEvent({ id: 'event1' }),
+        createMockEvent({ id: 'event2', lobbyId: 'lobby2' }),
+      ]);
+      (prismaService.lobbyEvent.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const sent = await service.sendEventReminders();
+
+      expect(sent).toBe(1);
+      expect(prismaService.lobbyEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'event1', reminderSentAt: null },
+        data: { reminderSentAt: expect.any(Date) },
+      });
+      expect(lobbyGateway.notifyEventReminder).toHaveBeenCalledTimes(1);
+      expect(lobbyGateway.notifyEventReminder).toHaveBeenCalledWith(
+        'lobby1',
+        expect.objectContaining({ id: 'event1' }),
+      );
+    });
+
+    it('should not throw when the lookup fails', async () => {
+      (prismaService.lobbyEvent.findMany as jest.Mock).mockRejectedValueOnce(
+        new Error('Database unavailable'),
+      );
+
+      await expect(service.sendEventReminders()).resolves.toBe(0);
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, RsvpStatus } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { UserWithLobbyRelations } from 'src/users/types/user.types';
+import { LobbyGateway } from './lobby.gateway';
+import { CreateLobbyEventDto } from './dto/create-lobby-event.dto';
+import { UpdateLobbyEventDto } from './dto/update-lobby-event.dto';
+import { ListLobbyEventsQueryDto } from './dto/list-lobby-events-query.dto';
+import {
+  DEFAULT_EVENT_DURATION_MINUTES,
+  DEFAULT_EVENT_REMINDER_LEAD_MINUTES,
+} from './lobby.constants';
+import { PaginatedResult } from './types/lobby.types';
+
+const DEFAULT_EVENT_PAGE_SIZE = 20;
+
+const EVENT_INCLUDE = {
+  rsvps: {
+    include: { user: { select: { id: true, username: true, avatar: true } } },
+  },
+  _count: { select: { games: true } },
+} satisfies Prisma.LobbyEventInclude;
+
+export type LobbyEventWithRsvps = Prisma.LobbyEventGetPayload<{
+  include: typeof EVENT_INCLUDE;
+}>;
+
+/**
+ * Lobby Events Service
+ *
+ * Schedules in-house sessions of a lobby, collects member RSVPs and
+ * reminds the lobby shortly before an event starts. Replays uploaded
+ * during an event are linked to it by ReplayService.
+ */
+@Injectable()
+export class LobbyEventsService {
+  private readonly logger = new Logger(LobbyEventsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(forwardRef(() => LobbyGateway))
+    private readonly lobbyGateway: LobbyGateway,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Handles and logs unexpected service-level errors.
+   * @param error The caught exception.
+   * @param context A string indicating which method triggered the error.
+   * @throws BadRequestException for unexpected errors.
+   */
+  private handleServiceError(error: unknown, context: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+
+    this.logger.error(
+      `Unexpected error during "${context}": ${
+        error instanceof Error ? error.stack : String(error)
+      }`,
+    );
+
+    throw new BadRequestException(
+      `An unexpected error occurred while trying to ${context}. Please try again later.`,
+    );
+  }
+
+  /**
+   * Reads how long before an event starts its reminder is sent.
+   * @returns The reminder lead time in milliseconds.
+   */
+  private getReminderLeadMs(): number {
+    const minutes =
+      this.configService.get<number>('EVENT_REMINDER_LEAD_MINUTES') ??
+      DEFAULT_EVENT_REMINDER_LEAD_MINUTES;
+
+    return Number(minutes) * 60 * 1000;
+  }
+
+  /**
+   * Verifies that a user is a member of the lobby.
+   * @throws ForbiddenException if the user is not a member.
+   */
+  private assertMember(lobbyId: string, user: UserWithLobbyRelations): void {
+    if (user.lobbyId !== lobbyId) {
+      throw new ForbiddenException('Only lobby members can access its events');
+    }
+  }
+
+  /**
+   * Finds an event of a lobby.
+   * @throws NotFoundException if the lobby has no such event.
+   */
+  private async findEvent(lobbyId: string, eventId: string) {
+    const event = await this.prismaService.lobbyEvent.findFirst({
+      where: { id: eventId, lobbyId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Schedules a new lobby event and announces it to the lobby.
+   * @param lobbyId The lobby ID.
+   * @param user The owner or admin scheduling the event.
+   * @param dto The event details.
+   * @returns The created event.
+   * @throws BadRequestException if the event starts in the past or ends
+   * before it starts.
+   */
+  async createEvent(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    dto: CreateLobbyEventDto,
+  ): Promise<LobbyEventWithRsvps> {
+    try {
+      const endsAt =
+        dto.endsAt ??
+        new Date(
+          dto.startsAt.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000,
+        );
+
+      if (dto.startsAt <= new Date()) {
+        throw new BadRequestException('An event must start in the future');
+      }
+
+      if (endsAt <= dto.startsAt) {
+        throw new BadRequestException('An event must end after it starts');
+      }
+
+      const event = await this.prismaService.lobbyEvent.create({
+        data: {
+          lobbyId,
+          title: dto.title.trim(),
+          startsAt: dto.startsAt,
+          endsAt,
+          expectedPlayers: dto.expectedPlayers,
+          notes: dto.notes?.trim() || null,
+          createdById: user.id,
+        },
+        include: EVENT_INCLUDE,
+      });
+
+      void this.lobbyGateway.notifyEventScheduled(lobbyId, event);
+
+      return event;
+    } catch (error) {
+      this.handleServiceError(error, 'schedule event');
+    }
+  }
+
+  /**
+   * Updates an upcoming or ongoing lobby event. Moving the start time
+   * re-arms the reminder.
+   * @param lobbyId The lobby ID.
+   * @param eventId The event ID.
+   * @param dto The fields to update.
+   * @returns The updated event.
+   * @throws BadRequestException if no fields are provided, the event is
+   * over or the new times are invalid.
+   */
+  async updateEvent(
+    lobbyId: string,
+    eventId: string,
+    dto: UpdateLobbyEventDto,
+  ): Promise<LobbyEventWithRsvps> {
+    try {
+      const event = await this.findEvent(lobbyId, eventId);
+      const now = new Date();
+
+      if (event.endsAt <= now) {
+        throw new BadRequestException('Past events cannot be changed');
+      }
+
+      const data: Prisma.LobbyEventUpdateInput = {
+        ...(dto.title !== undefined && { title: dto.title.trim() }),
+        ...(dto.startsAt !== undefined && {
+          startsAt: dto.startsAt,
+          reminderSentAt: null,
+        }),
+        ...(dto.endsAt !== undefined && { endsAt: dto.endsAt }),
+        ...(dto.expectedPlayers !== undefined && {
+          expectedPlayers: dto.expectedPlayers,
+        }),
+        ...(dto.notes !== undefined && { notes: dto.notes.trim() || null }),
+      };
+
+      if (!Object.keys(data).length) {
+        throw new BadRequestException('No event fields provided to update');
+      }
+
+      if (dto.startsAt && dto.startsAt <= now) {
+        throw new BadRequestException('An event must start in the future');
+      }
+
+      if ((dto.endsAt ?? event.endsAt) <= (dto.startsAt ?? event.startsAt)) {
+        throw new BadRequestException('An event must end after it starts');
+      }
+
+      const updatedEvent = await this.prismaService.lobbyEvent.update({
+        where: { id: eventId },
+        data,
+        include: EVENT_INCLUDE,
+      });
+
+      void this.lobbyGateway.notifyEventUpdated(lobbyId, updatedEvent);
+
+      return updatedEvent;
+    } catch (error) {
+      this.handleServiceError(error, 'update event');
+    }
+  }
+
+  /**
+   * Cancels a lobby event. Replays linked to it are kept.
+   * @param lobbyId The lobby ID.
+   * @param eventId The event ID.
+   * @returns A confirmation message.
+   */
+  async cancelEvent(lobbyId: string, eventId: string) {
+    try {
+      await this.findEvent(lobbyId, eventId);
+
+      await this.prismaService.lobbyEvent.delete({ where: { id: eventId } });
+
+      void this.lobbyGateway.notifyEventCancelled(lobbyId, eventId);
+
+      return { message: 'Event has been cancelled' };
+    } catch (error) {
+      this.handleServiceError(error, 'cancel event');
+    }
+  }
+
+  /**
+   * Lists a lobby's upcoming and ongoing events, soonest first, or its
+   * past events, most recent first.
+   * @param lobbyId The lobby ID.
+   * @param user The requesting member.
+   * @param query Whether to list past events, and pagination.
+   * @returns A page of events with their RSVPs.
+   */
+  async listEvents(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    query: ListLobbyEventsQueryDto,
+  ): Promise<PaginatedResult<LobbyEventWithRsvps>> {
+    try {
+      this.assertMember(lobbyId, user);
+
+      const limit = query.limit ?? DEFAULT_EVENT_PAGE_SIZE;
+      const now = new Date();
+
+      const events = await this.prismaService.lobbyEvent.findMany({
+        where: {
+          lobbyId,
+          endsAt: query.past ? { lt: now } : { gte: now },
+        },
+        include: EVENT_INCLUDE,
+        orderBy: [{ startsAt: query.past ? 'desc' : 'asc' }, { id: 'asc' }],
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      });
+
+      const hasMore = events.length > limit;
+      const items = hasMore ? events.slice(0, limit) : events;
+
+      return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1].id : null,
+      };
+    } catch (error) {
+      this.handleServiceError(error, 'list events');
+    }
+  }
+
+  /**
+   * Retrieves a lobby event with its RSVPs and the games played during it.
+   * @param lobbyId The lobby ID.
+   * @param eventId The event ID.
+   * @param user The requesting member.
+   * @returns The event.
+   * @throws NotFoundException if the lobby has no such event.
+   */
+  async getEvent(
+    lobbyId: string,
+    eventId: string,
+    user: UserWithLobbyRelations,
+  ) {
+    try {
+      this.assertMember(lobbyId, user);
+
+      const event = await this.prismaService.lobbyEvent.findFirst({
+        where: { id: eventId, lobbyId },
+        include: {
+          ...EVENT_INCLUDE,
+          games: {
+            select: {
+              id: true,
+              matchId: true,
+              duration: true,
+              gameWinner: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+
+      if (!event) {
+        throw new NotFoundException('Event not found');
+      }
+
+      return event;
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve event');
+    }
+  }
+
+  /**
+   * Records a member's answer to an event and shares it with the lobby.
+   * @param lobbyId The lobby ID.
+   * @param eventId The event ID.
+   * @param user The responding member.
+   * @param status Whether the member is going, maybe going or declining.
+   * @returns The stored RSVP.
+   * @throws BadRequestException if the event is over.
+   */
+  async rsvp(
+    lobbyId: string,
+    eventId: string,
+    user: UserWithLobbyRelations,
+    status: RsvpStatus,
+  ) {
+    try {
+      this.assertMember(lobbyId, user);
+
+      const event = await this.findEvent(lobbyId, eventId);
+
+      if (event.endsAt <= new Date()) {
+        throw new BadRequestException('This event has already ended');
+      }
+
+      const rsvp = await this.prismaService.lobbyEventRsvp.upsert({
+        where: { eventId_userId: { eventId, userId: user.id } },
+        create: { eventId, userId: user.id, status },
+        update: { status },
+      });
+
+      void this.lobbyGateway.notifyEventRsvp(
+        lobbyId,
+        eventId,
+        user.id,
+        user.username || 'Anonymous',
+        status,
+      );
+
+      return rsvp;
+    } catch (error) {
+      this.handleServiceError(error, 'answer event');
+    }
+  }
+
+  /**
+   * Reminds each lobby of its events starting within the reminder lead time.
+   * Runs on a schedule; every event is claimed before its reminder is sent,
+   * so running the job on several instances sends it once.
+   * @returns The number of reminders sent.
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'lobby-event-reminders' })
+  async sendEventReminders(): Promise<number> {
+    try {
+      const now = new Date();
+
+      const dueEvents = await this.prismaService.lobbyEvent.findMany({
+        where: {
+          reminderSentAt: null,
+          startsAt: {
+            gt: now,
+            lte: new Date(now.getTime() + this.getReminderLeadMs()),
+          },
+        },
+      });
+
+      let sent = 0;
+
+      for (const event of dueEvents) {
+        const { count } = await this.prismaService.lobbyEvent.updateMany({
+          where: { id: event.id, reminderSentAt: null },
+          data: { reminderSentAt: now },
+        });
+
+        if (count) {
+          void this.lobbyGateway.notifyEventReminder(event.lobbyId, event);
+          sent++;
+        }
+      }
+
+      if (sent) {
+        this.logger.log(`Sent ${sent} lobby event reminder(s)`);
+      }
+
+      return sent;
+    } catch (error) {
+      // Scheduled jobs have no caller to report to, so log instead of throwing
+      this.logger.error(
+        `Unexpected error during "send event reminders": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import RedisMock from 'ioredis-mock';
+import { RedisProvider } from 'src/redis/redis.provider';
+import { createMockUser } from 'src/common/utils/test-utils/mockUser';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { PRESENCE_SOCKET_TTL_MS } from './lobby.constants';
+
+describe('LobbyPresenceService', () => {
+  let service: LobbyPresenceService;
+  let redis: InstanceType<typeof RedisMock>;
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LobbyPresenceService,
+        {
+          provide: RedisProvider,
+          useValue: { getClient: () => redis },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LobbyPresenceService>(LobbyPresenceService);
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    jest.useRealTimers();
+  });
+
+  const member = createMockUser({ lobbyId: 'lobby1' });
+
+  describe('connect', () => {
+    it('should record the socket and mark the member online', async () => {
+      const presence = await service.connect('lobby1', 'user1', 'socket1');
+
+      expect(presence).toEqual(
+        expect.objectContaining({ userId: 'user1', status: 'online' }),
+      );
+      await expect(
+        redis.zscore('presence:user1:sockets', 'socket1'),
+      ).resolves.not.toBeNull();
+      await expect(service.getLobbyPresence('lobby1', member)).resolves.toEqual(
+        [presence],
+      );
+    });
+
+    it('should keep the status of a member who opens another socket', async () => {
+      await service.connect('lobby1', 'user1', 'socket1');
+      await service.setStatus('lobby1', 'user1', 'in-game');
+
+      const presence = await service.connect('lobby1', 'user1', 'socket2');
+
+      expect(presence.status).toBe('in-game');
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should keep the member online while other sockets remain', async () => {
+      await service.connect('lobby1', 'user1', 'socket1');
+      await service.connect('lobby1', 'user1', 'socket2');
+
+      await expect(
+        service.disconnect('lobby1', 'user1', 'socket1'),
+      ).resolves.toBe(false);
+      await expect(
+        service.getLobbyPresence('lobby1', member),
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should remove the presence entry after the last socket', async () => {
+      await service.connect('lobby1', 'user1', 'socket1');
+
+      await expect(
+        service.disconnect('lobby1', 'user1', 'socket1'),
+      ).resolves.toBe(true);
+      await expect(redis.hgetall('lobby:lobby1:presence')).resolves.toEqual({});
+    });
+
+    it('should not count sockets that stopped sending heartbeats', async () => {
+      jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick'] });
+      await service.connect('lobby1', 'user1', 'lost-in-crash');
+      await service.connect('lobby1', 'user1', 'socket2');
+      jest.setSystemTime(Date.now() + PRESENCE_SOCKET_TTL_MS / 2);
+      await service.heartbeat('user1', ['socket2']);
+      jest.setSystemTime(Date.now() + PRESENCE_SOCKET_TTL_MS);
+      await service.heartbeat('user1', ['socket2']);
+
+      await expect(
+        service.disconnect('lobby1', 'user1', 'socket2'),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should remove the presence entry of a former member', async () => {
+      await service.connect('lobby1', 'user1', 'socket1');
+
+      await expect(service.removeMember('lobby1', 'user1')).resolves.toBe(true);
+      await expect(redis.hgetall('lobby:lobby1:presence')).resolves.toEqual({});
+    });
+
+    it('should report members who had no presence entry', async () => {
+      await expect(service.removeMember('lobby1', 'user1')).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe('clearLobby', () => {
+    it('should remove the presence of every member', async () => {
+      await service.connect('lobby1', 'user1', 'socket1');
+      await service.connect('lobby1', 'user2', 'socket2');
+
+      await service.clearLobby('lobby1');
+
+      await expect(redis.hgetall('lobby:lobby1:presence')).resolves.toEqual({});
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('should not record sockets that never connected', async () => {
+      await service.heartbeat('user1', ['unknown']);
+
+      await expect(redis.zcard('presence:user1:sockets')).resolves.toBe(0);
+    });
+  });
+
+  describe('getLobbyPresence', () => {
+    it('should return the presence of connected members', async () => {
+      await service.connect('lobby1', 'user2', 'socket1');
+      const presence = await service.setStatus('lobby1', 'user2', 'away');
+
+      const result = await service.getLobbyPresence('lobby1', member);
+
+      expect(result).toEqual([presence]);
+    });
+
+    it('should drop members whose sockets all expired', async () => {
+      jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick'] });
+      await service.connect('lobby1', 'user2', 'lost-in-crash');
+      jest.setSystemTime(Date.now() + PRESENCE_SOCKET_TTL_MS + 1);
+
+      await expect(service.getLobbyPresence('lobby1', member)).resolves.toEqual(
+        [],
+      );
+      await expect(redis.hgetall('lobby:lobby1:presence')).resolves.toEqual({});
+    });
+
+    it('should throw if the user is not a member of the lobby', async () => {
+      await expect(
+        service.getLobbyPresence('lobby1', createMockUser()),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { RedisProvider } from 'src/redis/redis.provider';
+import { UserWithLobbyRelations } from 'src/users/types/user.types';
+import {
+  PRESENCE_SOCKET_TTL_MS,
+  PRESENCE_TTL_SECONDS,
+} from './lobby.constants';
+import { MemberPresence, PresenceStatus } from './types/lobby.types';
+
+/**
+ * Lobby Presence Service
+ *
+ * Tracks which lobby members are online, away or in-game. State lives in
+ * Redis so every gateway instance sees the same presence:
+ * - `lobby:<lobbyId>:presence` hash of userId to serialized presence
+ * - `presence:<userId>:sockets` sorted set of the user's open socket IDs,
+ *   scored by when they stop counting unless renewed by a heartbeat
+ *
+ * Sockets of an instance that crashed are never released, so they expire
+ * instead, and members left without a live socket are dropped when their
+ * lobby's presence is read.
+ */
+@Injectable()
+export class LobbyPresenceService {
+  constructor(private readonly redisProvider: RedisProvider) {}
+
+  private presenceKey(lobbyId: string): string {
+    return `lobby:${lobbyId}:presence`;
+  }
+
+  private socketsKey(userId: string): string {
+    return `presence:${userId}:sockets`;
+  }
+
+  /**
+   * Records a new socket for a member. A member who was offline is marked
+   * online; one who already has sockets open keeps their status.
+   * @param lobbyId The member's lobby ID.
+   * @param userId The member's user ID.
+   * @param socketId The new socket's ID.
+   * @returns The member's presence.
+   */
+  async connect(
+    lobbyId: string,
+    userId: string,
+    socketId: string,
+  ): Promise<MemberPresence> {
+    const client = this.redisProvider.getClient();
+    const socketsKey = this.socketsKey(userId);
+    const wasPresent = (await this.countLiveSockets(userId)) > 0;
+
+    await client.zadd(
+      socketsKey,
+      Date.now() + PRESENCE_SOCKET_TTL_MS,
+      socketId,
+    );
+    await client.expire(socketsKey, PRESENCE_TTL_SECONDS);
+
+    const current = wasPresent
+      ? await client.hget(this.presenceKey(lobbyId), userId)
+      : null;
+
+    return current
+      ? (JSON.parse(current) as MemberPresence)
+      : this.setStatus(lobbyId, userId, 'online');
+  }
+
+  /**
+   * Releases a member's socket. The member goes offline once their last
+   * socket, on any instance, has disconnected or expired.
+   * @param lobbyId The member's lobby ID.
+   * @param userId The member's user ID.
+   * @param socketId The closed socket's ID.
+   * @returns Whether the member is now offline.
+   */
+  async disconnect(
+    lobbyId: string,
+    userId: string,
+    socketId: string,
+  ): Promise<boolean> {
+    const client = this.redisProvider.getClient();
+
+    await client.zrem(this.socketsKey(userId), socketId);
+
+    if ((await this.countLiveSockets(userId)) > 0) {
+      return false;
+    }
+
+    await client.hdel(this.presenceKey(lobbyId), userId);
+
+    return true;
+  }
+
+  /**
+   * Removes a member's presence from a lobby they left or were removed from.
+   * @param lobbyId The lobby ID.
+   * @param userId The former member's user ID.
+   * @returns Whether the member had a presence entry.
+   */
+  async removeMember(lobbyId: string, userId: string): Promise<boolean> {
+    const removed = await this.redisProvider
+      .getClient()
+      .hdel(this.presenceKey(lobbyId), userId);
+
+    return removed > 0;
+  }
+
+  /**
+   * Forgets the presence of every member of a lobby that no longer exists.
+   * @param lobbyId The disbanded lobby ID.
+   */
+  async clearLobby(lobbyId: string): Promise<void> {
+    await this.redisProvider.getClient().del(this.presenceKey(lobbyId));
+  }
+
+  /**
+   * Renews a user's open sockets so they keep counting towards presence.
+   * Sockets that were never recorded or have expired are left out.
+   * @param userId The user ID.
+   * @param socketIds The IDs of the user's sockets held by this instance.
+   */
+  async heartbeat(userId: string, socketIds: string[]): Promise<void> {
+    if (!socketIds.length) {
+      return;
+    }
+
+    const client = this.redisProvider.getClient();
+    const socketsKey = this.socketsKey(userId);
+    const expiresAt = Date.now() + PRESENCE_SOCKET_TTL_MS;
+
+    await client.zadd(
+      socketsKey,
+      'XX',
+      ...socketIds.flatMap((socketId) => [expiresAt, socketId]),
+    );
+    await client.expire(socketsKey, PRESENCE_TTL_SECONDS);
+  }
+
+  /**
+   * Drops a user's expired sockets and counts the remaining ones.
+   * @param userId The user ID.
+   * @returns The number of live sockets.
+   */
+  private async countLiveSockets(userId: string): Promise<number> {
+    const client = this.redisProvider.getClient();
+    const socketsKey = this.socketsKey(userId);
+
+    await client.zremrangebyscore(socketsKey, '-inf', Date.now());
+
+    return client.zcard(socketsKey);
+  }
+
+  /**
+   * Updates a connected member's presence status.
+   * @param lobbyId The member's lobby ID.
+   * @param userId The member's user ID.
+   * @param status The new status.
+   * @returns The member's presence.
+   */
+  async setStatus(
+    lobbyId: string,
+    userId: string,
+    status: PresenceStatus,
+  ): Promise<MemberPresence> {
+    const client = this.redisProvider.getClient();
+    const presenceKey = this.presenceKey(lobbyId);
+    const presence: MemberPresence = {
+      userId,
+      status,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await client.hset(presenceKey, userId, JSON.stringify(presence));
+    await client.expire(presenceKey, PRESENCE_TTL_SECONDS);
+
+    return presence;
+  }
+
+  /**
+   * Retrieves the presence of every connected member of a lobby.
+   * Members without an entry are offline.
+   * @param lobbyId The lobby ID.
+   * @param user The lobby member asking.
+   * @returns The presence of each connected member.
+   * @throws ForbiddenException if the user is not a member of the lobby.
+   */
+  async getLobbyPresence(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+  ): Promise<MemberPresence[]> {
+    if (user.lobbyId !== lobbyId) {
+      throw new ForbiddenException('Only lobby members can view presence');
+    }
+
+    const client = this.redisProvider.getClient();
+    const presenceKey = this.presenceKey(lobbyId);
+    const entries = await client.hgetall(presenceKey);
+    const presence: MemberPresence[] = [];
+
+    for (const [userId, entry] of Object.entries(entries)) {
+      // Left behind by sockets that expired without disconnecting
+      if ((await this.countLiveSockets(userId)) === 0) {
+        await client.hdel(presenceKey, userId);
+        continue;
+      }
+
+      presence.push(JSON.parse(entry) as MemberPresence);
+    }
+
+    return presence;
+  }
+}
@@ -0,0 +1,559 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  LobbyWaitlistEntry,
+  NotificationType,
+  RequestStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { UserWithLobbyRelations } from 'src/users/types/user.types';
+import { LobbyGateway } from './lobby.gateway';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+
+const createMockEntry = (
+  overrides: Partial<LobbyWaitlistEntry> = {},
+): LobbyWaitlistEntry => ({
+  id: 'entry1',
+  lobbyId: 'lobby1',
+  userId: 'user1',
+  createdAt: new Date('2026-10-19T10:00:00Z'),
+  offeredAt: null,
+  offerExpiresAt: null,
+  ...overrides,
+});
+
+const mockUser = {
+  id: 'user1',
+  username: 'Waiter',
+  memberLobby: null,
+} as UserWithLobbyRelations;
+
+describe('LobbyWaitlistService', () => {
+  let service: LobbyWaitlistService;
+  let prismaService: jest.Mocked<PrismaService>;
+  let lobbyGateway: jest.Mocked<LobbyGateway>;
+  let notificationsService: jest.Mocked<NotificationsService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LobbyWaitlistService,
+        {
+          provide: PrismaService,
+          useValue: {
+            $transaction: jest.fn(),
+            $queryRaw: jest.fn(),
+            lobby: { findUnique: jest.fn() },
+            user: {
+              count: jest.fn().mockResolvedValue(0),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            lobbyJoinRequest: {
+              findFirst: jest.fn().mockResolvedValue(null),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            lobbyWaitlistEntry: {
+              count: jest.fn().mockResolvedValue(0),
+              upsert: jest.fn().mockResolvedValue(createMockEntry()),
+              findFirst: jest.fn().mockResolvedValue(null),
+              findUnique: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn(),
+              delete: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: LobbyGateway,
+          useValue: {
+            isUserConnected: jest.fn().mockResolvedValue(true),
+            notifyWaitlistPosition: jest.fn(),
+            notifyWaitlistOffer: jest.fn(),
+            notifyUserRequestUpdate: jest.fn(),
+            notifyNewMember: jest.fn(),
+            joinLobbyRoom: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: { notify: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LobbyWaitlistService>(LobbyWaitlistService);
+    prismaService = module.get(PrismaService);
+    (prismaService.$transaction as jest.Mock).mockImplementation(
+      (
+        operations:
+          | Promise<unknown>[]
+          | ((tx: PrismaService) => Promise<unknown>),
+      ) =>
+        typeof operations === 'function'
+          ? operations(prismaService)
+          : Promise.all(operations),
+    );
+    lobbyGateway = module.get(LobbyGateway);
+    notificationsService = module.get(NotificationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('hasOpenSlot', () => {
+    it('should count offered slots as taken', async () => {
+      (prismaService.lobbyWaitlistEntry.count as jest.Mock)
+        .mockResolvedValueOnce(1) // reserved by an offer
+        .mockResolvedValueOnce(0); // waiting
+
+      await expect(service.hasOpenSlot('lobby1', 10, 9)).resolves.toBe(false);
+      expect(prismaService.lobbyWaitlistEntry.count).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1', offerExpiresAt: { gt: expect.any(Date) } },
+      });
+    });
+
+    it('should not let anyone skip users already waiting', async () => {
+      (prismaService.lobbyWaitlistEntry.count as jest.Mock)
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(2);
+
+      await expect(service.hasOpenSlot('lobby1', 10, 5)).resolves.toBe(false);
+    });
+
+    it('should report a free slot otherwise', async () => {
+      await expect(service.hasOpenSlot('lobby1', 10, 9)).resolves.toBe(true);
+    });
+  });
+
+  describe('claimSeat', () => {
+    it('should lock the lobby and count members and offered slots', async () => {
+      (prismaService.user.count as jest.Mock).mockResolvedValueOnce(8);
+      (
+        prismaService.lobbyWaitlistEntry.count as jest.Mock
+      ).mockResolvedValueOnce(2);
+
+      await expect(
+        service.claimSeat(prismaService, 'lobby1', 10),
+      ).rejects.toThrow('Lobby has reached maximum capacity');
+      expect(prismaService.$queryRaw).toHaveBeenCalled();
+      expect(prismaService.lobbyWaitlistEntry.count).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1', offerExpiresAt: { gt: expect.any(Date) } },
+      });
+    });
+
+    it('should let a user take the seat offered to them', async () => {
+      (prismaService.user.count as jest.Mock).mockResolvedValueOnce(9);
+
+      await expect(
+        service.claimSeat(prismaService, 'lobby1', 10, 'entry1'),
+      ).resolves.toBeUndefined();
+      expect(prismaService.lobbyWaitlistEntry.count).toHaveBeenCalledWith({
+        where: {
+          lobbyId: 'lobby1',
+          offerExpiresAt: { gt: expect.any(Date) },
+          id: { not: 'entry1' },
+        },
+      });
+    });
+  });
+
+  describe('assertNotWaiting', () => {
+    it('should throw if the user has an open join request', async () => {
+      (
+        prismaService.lobbyJoinRequest.findFirst as jest.Mock
+      ).mockResolvedValueOnce({ id: 'request1' });
+
+      await expect(service.assertNotWaiting('user1')).rejects.toThrow(
+        'You already have a pending request to another lobby',
+      );
+    });
+
+    it('should throw if the user is on a waitlist', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findFirst as jest.Mock
+      ).mockResolvedValueOnce(createMockEntry());
+
+      await expect(service.assertNotWaiting('user1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should only look at other lobbies when given one to skip', async () => {
+      await service.assertNotWaiting('user1', prismaService, 'lobby1');
+
+      expect(prismaService.lobbyJoinRequest.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: { not: 'lobby1' },
+          status: { in: [RequestStatus.PENDING, RequestStatus.WAITLISTED] },
+        },
+      });
+      expect(prismaService.lobbyWaitlistEntry.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user1', lobbyId: { not: 'lobby1' } },
+      });
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should queue the user, mark their request and push the position', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.count as jest.Mock
+      ).mockResolvedValueOnce(2);
+
+      const position = await service.enqueue('lobby1', 'user1', 'owner1');
+
+      expect(position).toBe(3);
+      expect(prismaService.lobbyWaitlistEntry.upsert).toHaveBeenCalledWith({
+        where: { lobbyId_userId: { lobbyId: 'lobby1', userId: 'user1' } },
+        create: { lobbyId: 'lobby1', userId: 'user1' },
+        update: {},
+      });
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: 'lobby1',
+          status: RequestStatus.PENDING,
+        },
+        data: {
+          status: RequestStatus.WAITLISTED,
+          decidedAt: expect.any(Date),
+          decidedById: 'owner1',
+        },
+      });
+      expect(lobbyGateway.notifyWaitlistPosition).toHaveBeenCalledWith(
+        'user1',
+        'lobby1',
+        3,
+      );
+    });
+
+    it('should not queue a user who is waiting to join another lobby', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findFirst as jest.Mock
+      ).mockResolvedValueOnce(createMockEntry({ lobbyId: 'lobby2' }));
+
+      await expect(service.enqueue('lobby1', 'user1')).rejects.toThrow(
+        'You already have a pending request to another lobby',
+      );
+      expect(prismaService.$queryRaw).toHaveBeenCalled();
+      expect(prismaService.lobbyWaitlistEntry.upsert).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyWaitlistPosition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fillOpenSlots', () => {
+    const lobby = {
+      capacity: 10,
+      waitlistAutoAdmit: false,
+      _count: { members: 9 },
+    };
+
+    it('should offer the free slot to the next user and push positions', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        lobby,
+      );
+      (prismaService.lobbyWaitlistEntry.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          { ...createMockEntry(), user: { username: 'Waiter', lobbyId: null } },
+        ])
+        .mockResolvedValueOnce([{ userId: 'user2' }, { userId: 'user3' }]);
+
+      await service.fillOpenSlots('lobby1');
+
+      expect(prismaService.lobbyWaitlistEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { lobbyId: 'lobby1', offeredAt: null },
+          take: 1,
+        }),
+      );
+      expect(prismaService.lobbyWaitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: 'entry1' },
+        data: { offeredAt: expect.any(Date), offerExpiresAt: expect.any(Date) },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith('user1', {
+        type: NotificationType.WAITLIST_OFFER,
+        lobbyId: 'lobby1',
+        payload: { expiresAt: expect.any(String) },
+      });
+      expect(lobbyGateway.notifyWaitlistOffer).toHaveBeenCalledWith(
+        'user1',
+        'lobby1',
+        expect.any(Date),
+      );
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyWaitlistPosition).toHaveBeenCalledWith(
+        'user2',
+        'lobby1',
+        1,
+      );
+      expect(lobbyGateway.notifyWaitlistPosition).toHaveBeenCalledWith(
+        'user3',
+        'lobby1',
+        2,
+      );
+    });
+
+    it('should admit the next user when the owner enabled auto-admission', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...lobby,
+        waitlistAutoAdmit: true,
+      });
+      (
+        prismaService.lobbyWaitlistEntry.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        { ...createMockEntry(), user: { username: 'Waiter', lobbyId: null } },
+      ]);
+
+      await service.fillOpenSlots('lobby1');
+
+      expect(prismaService.$queryRaw).toHaveBeenCalled();
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user1', lobbyId: null },
+        data: { lobbyId: 'lobby1', lobbyJoinedAt: expect.any(Date) },
+      });
+      expect(prismaService.lobbyWaitlistEntry.delete).toHaveBeenCalledWith({
+        where: { id: 'entry1' },
+      });
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: 'lobby1',
+          status: RequestStatus.WAITLISTED,
+        },
+        data: { status: RequestStatus.APPROVED },
+      });
+      expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+        'user1',
+        'lobby1',
+      );
+      expect(lobbyGateway.notifyNewMember).toHaveBeenCalledWith(
+        'lobby1',
+        'user1',
+        'Waiter',
+      );
+      expect(lobbyGateway.notifyWaitlistOffer).not.toHaveBeenCalled();
+    });
+
+    it('should not auto-admit a user who joined another lobby during admission', async () => {
+      (prismaService.lobby.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...lobby, waitlistAutoAdmit: true })
+        .mockResolvedValueOnce(null);
+      (
+        prismaService.lobbyWaitlistEntry.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        { ...createMockEntry(), user: { username: 'Waiter', lobbyId: null } },
+      ]);
+      (prismaService.user.updateMany as jest.Mock).mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await service.fillOpenSlots('lobby1');
+
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: 'lobby1',
+          status: RequestStatus.WAITLISTED,
+        },
+        data: { status: RequestStatus.SUPERSEDED, decidedAt: expect.any(Date) },
+      });
+      expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should drop users who joined another lobby meanwhile', async () => {
+      (prismaService.lobby.findUnique as jest.Mock)
+        .mockResolvedValueOnce(lobby)
+        .mockResolvedValueOnce(lobby);
+      (prismaService.lobbyWaitlistEntry.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          {
+            ...createMockEntry(),
+            user: { username: 'Waiter', lobbyId: 'lobby2' },
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            ...createMockEntry({ id: 'entry2', userId: 'user2' }),
+            user: { username: 'Next', lobbyId: null },
+          },
+        ]);
+
+      await service.fillOpenSlots('lobby1');
+
+      expect(prismaService.lobbyWaitlistEntry.delete).toHaveBeenCalledWith({
+        where: { id: 'entry1' },
+      });
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: 'lobby1',
+          status: RequestStatus.WAITLISTED,
+        },
+        data: { status: RequestStatus.SUPERSEDED, decidedAt: expect.any(Date) },
+      });
+      expect(lobbyGateway.notifyWaitlistOffer).toHaveBeenCalledTimes(1);
+      expect(lobbyGateway.notifyWaitlistOffer).toHaveBeenCalledWith(
+        'user2',
+        'lobby1',
+        expect.any(Date),
+      );
+    });
+
+    it('should leave the waitlist alone while the lobby is full', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...lobby,
+        _count: { members: 10 },
+      });
+
+      await service.fillOpenSlots('lobby1');
+
+      expect(prismaService.lobbyWaitlistEntry.update).not.toHaveBeenCalled();
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('leave', () => {
+    it('should keep the waitlisted request as cancelled history', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findUnique as jest.Mock
+      ).mockResolvedValueOnce(createMockEntry());
+
+      const result = await service.leave('lobby1', 'user1');
+
+      expect(result).toEqual({ message: 'You have left the waitlist' });
+      expect(prismaService.lobbyWaitlistEntry.delete).toHaveBeenCalledWith({
+        where: { id: 'entry1' },
+      });
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user1',
+          lobbyId: 'lobby1',
+          status: RequestStatus.WAITLISTED,
+        },
+        data: { status: RequestStatus.CANCELLED, decidedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('acceptOffer', () => {
+    it('should admit the user holding a valid offer', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findUnique as jest.Mock
+      ).mockResolvedValueOnce({
+        ...createMockEntry({
+          offeredAt: new Date(),
+          offerExpiresAt: new Date(Date.now() + 60_000),
+        }),
+        lobby: { capacity: 10 },
+      });
+
+      const result = await service.acceptOffer('lobby1', mockUser);
+
+      expect(result).toEqual({
+        message: 'You have joined the lobby',
+        lobbyId: 'lobby1',
+      });
+      expect(prismaService.lobbyWaitlistEntry.count).toHaveBeenCalledWith({
+        where: {
+          lobbyId: 'lobby1',
+          offerExpiresAt: { gt: expect.any(Date) },
+          id: { not: 'entry1' },
+        },
+      });
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user1', lobbyId: null },
+        data: { lobbyId: 'lobby1', lobbyJoinedAt: expect.any(Date) },
+      });
+      expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+        'user1',
+        'lobby1',
+      );
+    });
+
+    it('should throw if the user joined another lobby meanwhile', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findUnique as jest.Mock
+      ).mockResolvedValueOnce({
+        ...createMockEntry({
+          offeredAt: new Date(),
+          offerExpiresAt: new Date(Date.now() + 60_000),
+        }),
+        lobby: { capacity: 10 },
+      });
+      (prismaService.user.updateMany as jest.Mock).mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await expect(service.acceptOffer('lobby1', mockUser)).rejects.toThrow(
+        'You are already a member of a lobby',
+      );
+      expect(prismaService.lobbyWaitlistEntry.delete).not.toHaveBeenCalled();
+      expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+    });
+
+    it('should throw once the offer has expired', async () => {
+      (
+        prismaService.lobbyWaitlistEntry.findUnique as jest.Mock
+      ).mockResolvedValueOnce(
+        createMockEntry({
+          offeredAt: new Date(Date.now() - 120_000),
+          offerExpiresAt: new Date(Date.now() - 60_000),
+        }),
+      );
+
+      await expect(service.acceptOffer('lobby1', mockUser)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('should expire missed offers and offer the slots again', async () => {
+      const fillOpenSlots = jest
+        .spyOn(service, 'fillOpenSlots')
+        .mockResolvedValue();
+      (
+        prismaService.lobbyWaitlistEntry.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        createMockEntry({ offerExpiresAt: new Date(Date.now() - 1000) }),
+      ]);
+
+      const expired = await service.expireOffers();
+
+      expect(expired).toBe(1);
+      expect(prismaService.lobbyWaitlistEntry.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['entry1'] } },
+      });
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: RequestStatus.WAITLISTED,
+          OR: [{ userId: 'user1', lobbyId: 'lobby1' }],
+        },
+        data: { status: RequestStatus.EXPIRED, decidedAt: expect.any(Date) },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith('user1', {
+        type: NotificationType.REQUEST_EXPIRED,
+        lobbyId: 'lobby1',
+      });
+      expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
+        'user1',
+        'lobby1',
+        'expired',
+      );
+      expect(fillOpenSlots).toHaveBeenCalledWith('lobby1');
+    });
+  });
+});
@@ -0,0 +1,650 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  LobbyWaitlistEntry,
+  NotificationType,
+  Prisma,
+  RequestStatus,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { UserWithLobbyRelations } from 'src/users/types/user.types';
+import { LobbyGateway } from './lobby.gateway';
+import { DEFAULT_WAITLIST_OFFER_MINUTES } from './lobby.constants';
+import { WaitlistStatus } from './types/lobby.types';
+
+/** Waiting order: first come, first served. */
+const WAITLIST_ORDER = [{ createdAt: 'asc' as const }, { id: 'asc' as const }];
+
+/**
+ * Lobby Waitlist Service
+ *
+ * Queues applicants of full lobbies and hands out slots as they free up,
+ * either by offering the slot to the next user in line or, when the owner
+ * enabled auto-admission, by adding that user right away. Positions and
+ * offers are pushed to users through LobbyGateway.
+ */
+@Injectable()
+export class LobbyWaitlistService {
+  private readonly logger = new Logger(LobbyWaitlistService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(forwardRef(() => LobbyGateway))
+    private readonly lobbyGateway: LobbyGateway,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Handles and logs unexpected service-level errors.
+   * @param error The caught exception.
+   * @param context A string indicating which method triggered the error.
+   * @throws BadRequestException for unexpected errors.
+   */
+  private handleServiceError(error: unknown, context: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ForbiddenException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+
+    this.logger.error(
+      `Unexpected error during "${context}": ${
+        error instanceof Error ? error.stack : String(error)
+      }`,
+    );
+
+    throw new BadRequestException(
+      `An unexpected error occurred while trying to ${context}. Please try again later.`,
+    );
+  }
+
+  /**
+   * Reads how long a waitlisted user has to accept an offered slot.
+   * @returns The offer duration in milliseconds.
+   */
+  private getOfferDurationMs(): number {
+    const minutes =
+      this.configService.get<number>('WAITLIST_OFFER_MINUTES') ??
+      DEFAULT_WAITLIST_OFFER_MINUTES;
+
+    return Number(minutes) * 60 * 1000;
+  }
+
+  /**
+   * Counts the slots of a lobby held for waitlisted users whose offer is
+   * still open.
+   * @param lobbyId The lobby ID.
+   * @param client Prisma client to count with, e.g. a transaction.
+   * @returns The number of reserved slots.
+   */
+  countReservedSlots(
+    lobbyId: string,
+    client: Prisma.TransactionClient = this.prismaService,
+  ): Promise<number> {
+    return client.lobbyWaitlistEntry.count({
+      where: { lobbyId, offerExpiresAt: { gt: new Date() } },
+    });
+  }
+
+  /**
+   * Checks whether a lobby can take a new member without going through its
+   * waitlist. Offered slots stay reserved until their offer expires, and
+   * nobody skips ahead of users who are already waiting.
+   * @param lobbyId The lobby ID.
+   * @param capacity The lobby's capacity.
+   * @param memberCount The lobby's current member count.
+   * @returns Whether a slot is free.
+   */
+  async hasOpenSlot(
+    lobbyId: string,
+    capacity: number,
+    memberCount: number,
+  ): Promise<boolean> {
+    const [reserved, waiting] = await Promise.all([
+      this.countReservedSlots(lobbyId),
+      this.prismaService.lobbyWaitlistEntry.count({
+        where: { lobbyId, offeredAt: null },
+      }),
+    ]);
+
+    return waiting === 0 && memberCount + reserved < capacity;
+  }
+
+  /**
+   * Makes sure a lobby still has a seat for a new member, counting the seats
+   * held for waitlist offers. Locks the lobby row until the transaction ends,
+   * so concurrent joins are checked one after the other.
+   * @param tx The transaction the member is added in.
+   * @param lobbyId The lobby ID.
+   * @param capacity The lobby's capacity.
+   * @param heldEntryId The waitlist entry of the joining user, whose offered
+   * seat is theirs to take.
+   * @throws BadRequestException if every seat is taken or reserved.
+   */
+  async claimSeat(
+    tx: Prisma.TransactionClient,
+    lobbyId: string,
+    capacity: number,
+    heldEntryId?: string,
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "Lobby" WHERE "id" = ${lobbyId} FOR UPDATE`;
+
+    const [memberCount, reserved] = await Promise.all([
+      tx.user.count({ where: { lobbyId } }),
+      tx.lobbyWaitlistEntry.count({
+        where: {
+          lobbyId,
+          offerExpiresAt: { gt: new Date() },
+          ...(heldEntryId && { id: { not: heldEntryId } }),
+        },
+      }),
+    ]);
+
+    if (memberCount + reserved >= capacity) {
+      throw new BadRequestException('Lobby has reached maximum capacity');
+    }
+  }
+
+  /**
+   * Makes sure a user is not already waiting to join a lobby, either with an
+   * open join request or on its waitlist. A user may only wait for one lobby
+   * at a time.
+   * @param userId The user ID.
+   * @param client Prisma client to check with, e.g. a transaction.
+   * @param exceptLobbyId A lobby the user may already be waiting for.
+   * @throws BadRequestException if the user is waiting for a lobby.
+   */
+  async assertNotWaiting(
+    userId: string,
+    client: Prisma.TransactionClient = this.prismaService,
+    exceptLobbyId?: string,
+  ): Promise<void> {
+    const otherLobby = exceptLobbyId && { lobbyId: { not: exceptLobbyId } };
+    const [request, entry] = await Promise.all([
+      client.lobbyJoinRequest.findFirst({
+        where: {
+          userId,
+          ...otherLobby,
+          status: { in: [RequestStatus.PENDING, RequestStatus.WAITLISTED] },
+        },
+      }),
+      client.lobbyWaitlistEntry.findFirst({
+        where: { userId, ...otherLobby },
+      }),
+    ]);
+
+    if (request || entry) {
+      throw new BadRequestException(
+        'You already have a pending request to another lobby',
+      );
+    }
+  }
+
+  /**
+   * Adds a user to the end of a lobby's waitlist. If the owner approved a
+   * join request for the user, that request is marked WAITLISTED.
+   * @param lobbyId The lobby ID.
+   * @param userId The waitlisted user's ID.
+   * @param decidedById The owner who approved the request, if any.
+   * @returns The user's position in line.
+   * @throws BadRequestException if the user is waiting to join another lobby.
+   */
+  async enqueue(
+    lobbyId: string,
+    userId: string,
+    decidedById?: string,
+  ): Promise<number> {
+    const entry = await this.prismaService.$transaction(async (tx) => {
+      // Locks the user row, so a user queueing for two lobbies at once is
+      // checked one queue after the other
+      await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+      await this.assertNotWaiting(userId, tx, lobbyId);
+
+      const upserted = await tx.lobbyWaitlistEntry.upsert({
+        where: { lobbyId_userId: { lobbyId, userId } },
+        create: { lobbyId, userId },
+        update: {},
+      });
+
+      await tx.lobbyJoinRequest.updateMany({
+        where: { userId, lobbyId, status: RequestStatus.PENDING },
+        data: {
+          status: RequestStatus.WAITLISTED,
+          decidedAt: new Date(),
+          decidedById,
+        },
+      });
+
+      return upserted;
+    });
+
+    const position = await this.getPosition(entry);
+
+    void this.lobbyGateway.notifyWaitlistPosition(userId, lobbyId, position);
+
+    return position;
+  }
+
+  /**
+   * Computes the 1-based place in line of a waiting entry.
+   * @param entry The waitlist entry.
+   * @returns The entry's position.
+   */
+  private async getPosition(entry: LobbyWaitlistEntry): Promise<number> {
+    const ahead = await this.prismaService.lobbyWaitlistEntry.count({
+      where: {
+        lobbyId: entry.lobbyId,
+        offeredAt: null,
+        OR: [
+          { createdAt: { lt: entry.createdAt } },
+          { createdAt: entry.createdAt, id: { lt: entry.id } },
+        ],
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  /**
+   * Retrieves a user's place on a lobby's waitlist.
+   * @param lobbyId The lobby ID.
+   * @param userId The user ID.
+   * @returns The user's position and any pending offer.
+   * @throws NotFoundException if the user is not on the waitlist.
+   */
+  async getStatus(lobbyId: string, userId: string): Promise<WaitlistStatus> {
+    try {
+      const entry = await this.prismaService.lobbyWaitlistEntry.findUnique({
+        where: { lobbyId_userId: { lobbyId, userId } },
+      });
+
+      if (!entry) {
+        throw new NotFoundException(
+          'You are not on the waitlist of this lobby',
+        );
+      }
+
+      return {
+        lobbyId,
+        position: entry.offeredAt ? null : await this.getPosition(entry),
+        offeredAt: entry.offeredAt,
+        offerExpiresAt: entry.offerExpiresAt,
+      };
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve waitlist position');
+    }
+  }
+
+  /**
+   * Lists a lobby's waitlist in order, users holding an offer first.
+   * @param lobbyId The lobby ID.
+   * @returns The waitlist entries with their users and positions.
+   */
+  async getWaitlist(lobbyId: string) {
+    try {
+      const entries = await this.prismaService.lobbyWaitlistEntry.findMany({
+        where: { lobbyId },
+        orderBy: [
+          { offeredAt: { sort: 'asc' as const, nulls: 'last' as const } },
+          ...WAITLIST_ORDER,
+        ],
+        include: {
+          user: { select: { id: true, username: true, avatar: true } },
+        },
+      });
+
+      let position = 0;
+
+      return entries.map((entry) => ({
+        ...entry,
+        position: entry.offeredAt ? null : ++position,
+      }));
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve waitlist');
+    }
+  }
+
+  /**
+   * Removes a user from a lobby's waitlist and cancels their waitlisted join
+   * request. A slot the user was offered goes to the next user in line.
+   * @param lobbyId The lobby ID.
+   * @param userId The user leaving the waitlist.
+   * @returns A confirmation message.
+   * @throws NotFoundException if the user is not on the waitlist.
+   */
+  async leave(lobbyId: string, userId: string) {
+    try {
+      const entry = await this.prismaService.lobbyWaitlistEntry.findUnique({
+        where: { lobbyId_userId: { lobbyId, userId } },
+      });
+
+      if (!entry) {
+        throw new NotFoundException(
+          'You are not on the waitlist of this lobby',
+        );
+      }
+
+      await this.removeEntry(entry, RequestStatus.CANCELLED);
+      await this.fillOpenSlots(lobbyId);
+
+      return { message: 'You have left the waitlist' };
+    } catch (error) {
+      this.handleServiceError(error, 'leave waitlist');
+    }
+  }
+
+  /**
+   * Accepts the slot offered to a waitlisted user.
+   * @param lobbyId The lobby ID.
+   * @param user The user accepting the offer.
+   * @returns A confirmation message with the joined lobby ID.
+   * @throws BadRequestException if no valid offer exists or the user is
+   * already in a lobby.
+   */
+  async acceptOffer(lobbyId: string, user: UserWithLobbyRelations) {
+    try {
+      if (user.memberLobby) {
+        throw new BadRequestException('You are already a member of a lobby');
+      }
+
+      const entry = await this.prismaService.lobbyWaitlistEntry.findUnique({
+        where: { lobbyId_userId: { lobbyId, userId: user.id } },
+        include: { lobby: { select: { capacity: true } } },
+      });
+
+      if (!entry?.offerExpiresAt || entry.offerExpiresAt <= new Date()) {
+        throw new BadRequestException(
+          'There is no open slot offered to you in this lobby',
+        );
+      }
+
+      const { lobby, ...offer } = entry;
+      if (!(await this.admit(offer, user.username, lobby.capacity))) {
+        throw new BadRequestException('You are already a member of a lobby');
+      }
+
+      return { message: 'You have joined the lobby', lobbyId };
+    } catch (error) {
+      this.handleServiceError(error, 'accept waitlist offer');
+    }
+  }
+
+  /**
+   * Hands the free slots of a lobby to the users at the front of its
+   * waitlist, then pushes the new positions to everyone still waiting.
+   * Called whenever a member leaves or the capacity grows; failures are
+   * logged rather than thrown so they never undo the caller's change.
+   * @param lobbyId The lobby ID.
+   */
+  async fillOpenSlots(lobbyId: string): Promise<void> {
+    try {
+      const lobby = await this.prismaService.lobby.findUnique({
+        where: { id: lobbyId },
+        select: {
+          capacity: true,
+          waitlistAutoAdmit: true,
+          _count: { select: { members: true } },
+        },
+      });
+
+      if (!lobby) {
+        return;
+      }
+
+      const reserved = await this.countReservedSlots(lobbyId);
+      const freeSlots = lobby.capacity - lobby._count.members - reserved;
+
+      if (freeSlots > 0) {
+        const nextEntries =
+          await this.prismaService.lobbyWaitlistEntry.findMany({
+            where: { lobbyId, offeredAt: null },
+            orderBy: WAITLIST_ORDER,
+            take: freeSlots,
+            include: { user: { select: { username: true, lobbyId: true } } },
+          });
+        let skipped = false;
+
+        for (const { user, ...entry } of nextEntries) {
+          if (user.lobbyId) {
+            // Joined another lobby since, e.g. through an invite
+            await this.removeEntry(entry, RequestStatus.SUPERSEDED);
+            skipped = true;
+          } else if (lobby.waitlistAutoAdmit) {
+            if (!(await this.admit(entry, user.username, lobby.capacity))) {
+              await this.removeEntry(entry, RequestStatus.SUPERSEDED);
+              skipped = true;
+              continue;
+            }
+            await this.notificationsService.notify(entry.userId, {
+              type: NotificationType.REQUEST_ACCEPTED,
+              lobbyId,
+            });
+            if (await this.lobbyGateway.isUserConnected(entry.userId)) {
+              void this.lobbyGateway.notifyUserRequestUpdate(
+                entry.userId,
+                lobbyId,
+                'accepted',
+              );
+            }
+          } else {
+            await this.offerSlot(entry);
+          }
+        }
+
+        if (skipped) {
+          return this.fillOpenSlots(lobbyId);
+        }
+      }
+
+      await this.pushPositions(lobbyId);
+    } catch (error) {
+      this.logger.error(
+        `Unexpected error during "fill waitlist slots": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Offers the next free slot to a waitlisted user for a limited time.
+   * @param entry The user's waitlist entry.
+   */
+  private async offerSlot(entry: LobbyWaitlistEntry): Promise<void> {
+    const offeredAt = new Date();
+    const offerExpiresAt = new Date(
+      offeredAt.getTime() + this.getOfferDurationMs(),
+    );
+
+    await this.prismaService.lobbyWaitlistEntry.update({
+      where: { id: entry.id },
+      data: { offeredAt, offerExpiresAt },
+    });
+
+    await this.notificationsService.notify(entry.userId, {
+      type: NotificationType.WAITLIST_OFFER,
+      lobbyId: entry.lobbyId,
+      payload: { expiresAt: offerExpiresAt.toISOString() },
+    });
+
+    void this.lobbyGateway.notifyWaitlistOffer(
+      entry.userId,
+      entry.lobbyId,
+      offerExpiresAt,
+    );
+  }
+
+  /**
+   * Moves a waitlisted user into the lobby and approves their join request.
+   * The seat is claimed under the lobby row lock, and the user is only moved
+   * if they have not joined another lobby meanwhile.
+   * @param entry The user's waitlist entry.
+   * @param username The user's display name, announced to the lobby.
+   * @param capacity The lobby's capacity.
+   * @returns Whether the user was admitted, false if they are already a
+   * member of a lobby.
+   * @throws BadRequestException if every seat is taken or reserved.
+   */
+  private async admit(
+    entry: LobbyWaitlistEntry,
+    username: string | null,
+    capacity: number,
+  ): Promise<boolean> {
+    const { lobbyId, userId } = entry;
+
+    const admitted = await this.prismaService.$transaction(async (tx) => {
+      await this.claimSeat(tx, lobbyId, capacity, entry.id);
+
+      const joined = await tx.user.updateMany({
+        where: { id: userId, lobbyId: null },
+        data: { lobbyId, lobbyJoinedAt: new Date() },
+      });
+      if (joined.count === 0) {
+        return false;
+      }
+
+      await tx.lobbyWaitlistEntry.delete({ where: { id: entry.id } });
+      await tx.lobbyJoinRequest.updateMany({
+        where: { userId, lobbyId, status: RequestStatus.WAITLISTED },
+        data: { status: RequestStatus.APPROVED },
+      });
+
+      return true;
+    });
+
+    if (!admitted) {
+      return false;
+    }
+
+    void this.lobbyGateway.joinLobbyRoom(userId, lobbyId);
+    void this.lobbyGateway.notifyNewMember(
+      lobbyId,
+      userId,
+      username || 'Anonymous',
+    );
+
+    return true;
+  }
+
+  /**
+   * Deletes a waitlist entry and closes the waitlisted join request behind
+   * it, which is kept as history.
+   * @param entry The waitlist entry.
+   * @param status The status the join request ends with.
+   */
+  private async removeEntry(
+    entry: LobbyWaitlistEntry,
+    status: RequestStatus,
+  ): Promise<void> {
+    await this.prismaService.$transaction([
+      this.prismaService.lobbyWaitlistEntry.delete({
+        where: { id: entry.id },
+      }),
+      this.prismaService.lobbyJoinRequest.updateMany({
+        where: {
+          userId: entry.userId,
+          lobbyId: entry.lobbyId,
+          status: RequestStatus.WAITLISTED,
+        },
+        data: { status, decidedAt: new Date() },
+      }),
+    ]);
+  }
+
+  /**
+   * Pushes the current position of every user waiting in a lobby's line.
+   * @param lobbyId The lobby ID.
+   */
+  private async pushPositions(lobbyId: string): Promise<void> {
+    const waiting = await this.prismaService.lobbyWaitlistEntry.findMany({
+      where: { lobbyId, offeredAt: null },
+      orderBy: WAITLIST_ORDER,
+      select: { userId: true },
+    });
+
+    waiting.forEach(({ userId }, index) =>
+      this.lobbyGateway.notifyWaitlistPosition(userId, lobbyId, index + 1),
+    );
+  }
+
+  /**
+   * Withdraws slot offers that were not accepted in time and offers the
+   * slots to the next users in line. Runs on a schedule; the users who
+   * missed their offer are notified and their join request expires.
+   * @returns The number of expired offers.
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'expire-waitlist-offers' })
+  async expireOffers(): Promise<number> {
+    try {
+      const expiredOffers =
+        await this.prismaService.lobbyWaitlistEntry.findMany({
+          where: { offerExpiresAt: { lte: new Date() } },
+        });
+
+      if (!expiredOffers.length) {
+        return 0;
+      }
+
+      await this.prismaService.$transaction([
+        this.prismaService.lobbyWaitlistEntry.deleteMany({
+          where: { id: { in: expiredOffers.map((entry) => entry.id) } },
+        }),
+        this.prismaService.lobbyJoinRequest.updateMany({
+          where: {
+            status: RequestStatus.WAITLISTED,
+            OR: expiredOffers.map(({ userId, lobbyId }) => ({
+              userId,
+              lobbyId,
+            })),
+          },
+          data: { status: RequestStatus.EXPIRED, decidedAt: new Date() },
+        }),
+      ]);
+
+      for (const entry of expiredOffers) {
+        await this.notificationsService.notify(entry.userId, {
+          type: NotificationType.REQUEST_EXPIRED,
+          lobbyId: entry.lobbyId,
+        });
+
+        if (await this.lobbyGateway.isUserConnected(entry.userId)) {
+          void this.lobbyGateway.notifyUserRequestUpdate(
+            entry.userId,
+            entry.lobbyId,
+            'expired',
+          );
+        }
+      }
+
+      const lobbyIds = new Set(expiredOffers.map((entry) => entry.lobbyId));
+      for (const lobbyId of lobbyIds) {
+        await this.fillOpenSlots(lobbyId);
+      }
+
+      this.logger.log(`Expired ${expiredOffers.length} waitlist offer(s)`);
+
+      return expiredOffers.length;
+    } catch (error) {
+      // Scheduled jobs have no caller to report to, so log instead of throwing
+      this.logger.error(
+        `Unexpected error during "expire waitlist offers": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Default number of hours a user must wait before requesting to join
+ * a lobby again after being rejected. Override with JOIN_REQUEST_COOLDOWN_HOURS.
+ */
+export const DEFAULT_JOIN_REQUEST_COOLDOWN_HOURS = 6;
+
+/**
+ * Maximum number of application questions a lobby can ask applicants.
+ */
+export const MAX_APPLICATION_QUESTIONS = 5;
+
+/**
+ * Maximum length of a join request message and of each application answer.
+ */
+export const MAX_APPLICATION_ANSWER_LENGTH = 500;
+
+/**
+ * Default number of hours a join request may stay pending before the
+ * scheduler expires it. Override with JOIN_REQUEST_MAX_AGE_HOURS.
+ */
+export const DEFAULT_JOIN_REQUEST_MAX_AGE_HOURS = 72;
+
+/**
+ * Maximum length of a lobby chat message.
+ */
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+/**
+ * Flood limit for lobby chat: at most CHAT_FLOOD_MAX_MESSAGES messages
+ * per socket within CHAT_FLOOD_WINDOW_MS.
+ */
+export const CHAT_FLOOD_MAX_MESSAGES = 5;
+export const CHAT_FLOOD_WINDOW_MS = 10_000;
+
+/**
+ * How long presence keys live in Redis without being refreshed, so that
+ * entries left behind by a crashed instance eventually disappear.
+ */
+export const PRESENCE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * How long a socket keeps its user present without a heartbeat. Gateways
+ * renew their sockets every minute, so sockets lost when an instance crashes
+ * stop counting shortly after.
+ */
+export const PRESENCE_SOCKET_TTL_MS = 3 * 60 * 1000;
+
+/**
+ * Options of the `lobby` socket namespace. Shared by every gateway bound to
+ * it, since whichever gateway is created first configures the server.
+ */
+export const LOBBY_GATEWAY_OPTIONS = {
+  namespace: 'lobby', // Namespace for the WebSocket communication.
+  cors: {
+    origin:
+      process.env.NODE_ENV === 'production' ? [process.env.FRONTEND_URL] : '*', // Configuring CORS based on environment.
+    credentials: true,
+  },
+  transports: ['websocket'], // Only WebSocket transport is allowed.
+};
+
+/**
+ * bcrypt cost factor used to hash the passphrase of PASSWORD lobbies.
+ */
+export const JOIN_PASSWORD_SALT_ROUNDS = 10;
+
+/**
+ * Length limits of a lobby passphrase. bcrypt ignores input past 72 bytes.
+ */
+export const MIN_JOIN_PASSWORD_LENGTH = 4;
+export const MAX_JOIN_PASSWORD_LENGTH = 72;
+
+/**
+ * Wrong passphrases a user may enter for a PASSWORD lobby before further
+ * attempts are refused, until JOIN_PASSWORD_LOCKOUT_SECONDS after the first.
+ */
+export const MAX_JOIN_PASSWORD_ATTEMPTS = 5;
+export const JOIN_PASSWORD_LOCKOUT_SECONDS = 15 * 60;
+
+/**
+ * Default number of minutes a waitlisted user has to accept an offered slot
+ * before it goes to the next user. Override with WAITLIST_OFFER_MINUTES.
+ */
+export const DEFAULT_WAITLIST_OFFER_MINUTES = 30;
+
+/**
+ * Default length of a lobby event when no end time is given, in minutes.
+ */
+export const DEFAULT_EVENT_DURATION_MINUTES = 180;
+
+/**
+ * How long before a lobby event starts its reminder is sent, in minutes.
+ * Override with EVENT_REMINDER_LEAD_MINUTES.
+ */
+export const DEFAULT_EVENT_REMINDER_LEAD_MINUTES = 15;
@@ -1,11 +1,25 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { LobbyController } from './lobby.controller';
 import { LobbyService } from './lobby.service';
+import { LobbyChatService } from './lobby-chat.service';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+import { LobbyEventsService } from './lobby-events.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { IsLobbyOwnerGuard } from './guards/is-lobby-owner.guard';
+import { IsLobbyAdminGuard } from './guards/is-lobby-admin.guard';
 import { CreateLobbyDto } from './dto/create-lobby.dto';
 import { UpdateLobbyVisibilityDto } from './dto/update-lobby-visibility.dto';
-import { LobbyVisibility, UserRole } from '@prisma/client';
+import { UpdateLobbyDto } from './dto/update-lobby.dto';
+import { DisbandGamesAction, DisbandLobbyDto } from './dto/disband-lobby.dto';
+import { ListLobbiesQueryDto, LobbySort } from './dto/list-lobbies-query.dto';
+import {
+  LobbyAuditAction,
+  LobbyVisibility,
+  RequestStatus,
+  RsvpStatus,
+  UserRole,
+} from '@prisma/client';
 import { AuthenticatedRequest } from '../auth/auth-request.interface';
 import { UserWithLobbyRelations } from '../users/types/user.types';
 import { PrismaService } from '../prisma/prisma.service';
@@ -39,6 +53,7 @@ describe('LobbyController', () => {
     username: 'testuser',
     avatar: null,
     lobbyId: null,
+    lobbyJoinedAt: null,
     role: UserRole.MEMBER,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -68,6 +83,7 @@ describe('LobbyController', () => {
       username: 'testuser',
       avatar: null,
       lobbyId: 'lobby-123',
+      lobbyJoinedAt: new Date(),
       role: UserRole.OWNER,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -82,11 +98,52 @@ describe('LobbyController', () => {
    * - Individual tests will override returns as needed
    */
   const mockLobbyService = {
+    listPublicLobbies: jest.fn(),
     createLobby: jest.fn(),
     joinLobby: jest.fn(),
     getMyLobby: jest.fn(),
     getLobby: jest.fn(),
     updateLobbyVisibility: jest.fn(),
+    updateLobby: jest.fn(),
+    disbandLobby: jest.fn(),
+    transferOwnership: jest.fn(),
+    promoteMember: jest.fn(),
+    demoteMember: jest.fn(),
+    getInvites: jest.fn(),
+    createInvite: jest.fn(),
+    revokeInvite: jest.fn(),
+    redeemInvite: jest.fn(),
+    getRequestHistory: jest.fn(),
+    getMyRequests: jest.fn(),
+    removeMember: jest.fn(),
+    getBans: jest.fn(),
+    banUser: jest.fn(),
+    unbanUser: jest.fn(),
+    getAuditLog: jest.fn(),
+  };
+
+  const mockLobbyChatService = {
+    getHistory: jest.fn(),
+  };
+
+  const mockLobbyPresenceService = {
+    getLobbyPresence: jest.fn(),
+  };
+
+  const mockLobbyWaitlistService = {
+    getWaitlist: jest.fn(),
+    getStatus: jest.fn(),
+    acceptOffer: jest.fn(),
+    leave: jest.fn(),
+  };
+
+  const mockLobbyEventsService = {
+    listEvents: jest.fn(),
+    createEvent: jest.fn(),
+    getEvent: jest.fn(),
+    updateEvent: jest.fn(),
+    cancelEvent: jest.fn(),
+    rsvp: jest.fn(),
   };
 
   // Empty mocks for dependent services
@@ -106,6 +163,22 @@ describe('LobbyController', () => {
           provide: LobbyService,
           useValue: mockLobbyService,
         },
+        {
+          provide: LobbyChatService,
+          useValue: mockLobbyChatService,
+        },
+        {
+          provide: LobbyPresenceService,
+          useValue: mockLobbyPresenceService,
+        },
+        {
+          provide: LobbyWaitlistService,
+          useValue: mockLobbyWaitlistService,
+        },
+        {
+          provide: LobbyEventsService,
+          useValue: mockLobbyEventsService,
+        },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -120,6 +193,8 @@ describe('LobbyController', () => {
       .useValue({ canActivate: () => true })
       .overrideGuard(IsLobbyOwnerGuard)
       .useValue({ canActivate: () => true })
+      .overrideGuard(IsLobbyAdminGuard)
+      .useValue({ canActivate: () => true })
       .compile();
 
     controller = module.get<LobbyController>(LobbyController);
@@ -136,6 +211,30 @@ describe('LobbyController', () => {
     expect(controller).toBeDefined();
   });
 
+  /**
+   * Test group for listPublicLobbies endpoint
+   *
+   * Verifies:
+   * - Query DTO propagation
+   * - Paginated response passthrough
+   */
+  describe('listPublicLobbies', () => {
+    it('should call service with query parameters', async () => {
+      const query: ListLobbiesQueryDto = {
+        search: 'test',
+        sort: LobbySort.MOST_MEMBERS,
+        limit: 10,
+      };
+      const page = { items: [], nextCursor: null };
+      mockLobbyService.listPublicLobbies.mockResolvedValue(page);
+
+      const result = await controller.listPublicLobbies(query);
+
+      expect(result).toEqual(page);
+      expect(lobbyService.listPublicLobbies).toHaveBeenCalledWith(query);
+    });
+  });
+
   /**
    * Test group for createLobby endpoint
    *
@@ -247,4 +346,410 @@ describe('LobbyController', () => {
       );
     });
   });
+
+  /**
+   * Test group for updateLobby endpoint
+   *
+   * Verifies:
+   * - Lobby ID parameter handling
+   * - Profile DTO propagation
+   */
+  describe('updateLobby', () => {
+    it('should call service with correct parameters', async () => {
+      const lobbyId = 'lobby-123';
+      const dto: UpdateLobbyDto = { description: 'Updated description' };
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const updatedLobby = { ...mockLobby, description: dto.description };
+
+      mockLobbyService.updateLobby.mockResolvedValue(updatedLobby);
+
+      const result = await controller.updateLobby(lobbyId, dto, req);
+
+      expect(result).toEqual(updatedLobby);
+      expect(lobbyService.updateLobby).toHaveBeenCalledWith(
+        lobbyId,
+        mockUser,
+        dto,
+      );
+    });
+  });
+
+  /**
+   * Test group for disbandLobby endpoint
+   *
+   * Verifies:
+   * - Lobby ID parameter handling
+   * - Games action propagation
+   */
+  describe('disbandLobby', () => {
+    it('should call service with the chosen games action', async () => {
+      const dto: DisbandLobbyDto = { gamesAction: DisbandGamesAction.DELETE };
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const response = { message: 'Lobby has been disbanded' };
+
+      mockLobbyService.disbandLobby.mockResolvedValue(response);
+
+      const result = await controller.disbandLobby('lobby-123', dto, req);
+
+      expect(result).toEqual(response);
+      expect(lobbyService.disbandLobby).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        DisbandGamesAction.DELETE,
+      );
+    });
+  });
+
+  /**
+   * Test group for transferOwnership endpoint
+   *
+   * Verifies:
+   * - Lobby ID and target user propagation
+   */
+  describe('transferOwnership', () => {
+    it('should call service with the new owner ID', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const response = { message: 'Lobby ownership has been transferred' };
+
+      mockLobbyService.transferOwnership.mockResolvedValue(response);
+
+      const result = await controller.transferOwnership(
+        'lobby-123',
+        { userId: 'user-456' },
+        req,
+      );
+
+      expect(result).toEqual(response);
+      expect(lobbyService.transferOwnership).toHaveBeenCalledWith(
+        'lobby-123',
+        'user-456',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Test group for member role endpoints
+   *
+   * Verifies:
+   * - Lobby ID and member ID propagation for promote/demote
+   */
+  describe('member roles', () => {
+    const req = { user: mockUser } as AuthenticatedRequest;
+
+    it('should promote a member through the service', async () => {
+      mockLobbyService.promoteMember.mockResolvedValue({
+        message: 'Member has been promoted to admin',
+      });
+
+      await controller.promoteMember('lobby-123', 'user-456', req);
+
+      expect(lobbyService.promoteMember).toHaveBeenCalledWith(
+        'lobby-123',
+        'user-456',
+        mockUser,
+      );
+    });
+
+    it('should demote an admin through the service', async () => {
+      mockLobbyService.demoteMember.mockResolvedValue({
+        message: 'Admin has been demoted to member',
+      });
+
+      await controller.demoteMember('lobby-123', 'user-456', req);
+
+      expect(lobbyService.demoteMember).toHaveBeenCalledWith(
+        'lobby-123',
+        'user-456',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Test group for invite endpoints
+   *
+   * Verifies:
+   * - Invite creation options propagation
+   * - Invite redemption by code
+   */
+  describe('invites', () => {
+    const req = { user: mockUser } as AuthenticatedRequest;
+
+    it('should create an invite through the service', async () => {
+      const dto = { expiresInHours: 12, maxUses: 3 };
+      mockLobbyService.createInvite.mockResolvedValue({ code: 'abc12345' });
+
+      const result = await controller.createInvite('lobby-123', dto, req);
+
+      expect(result).toEqual({ code: 'abc12345' });
+      expect(lobbyService.createInvite).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        dto,
+      );
+    });
+
+    it('should redeem an invite code through the service', async () => {
+      mockLobbyService.redeemInvite.mockResolvedValue({
+        message: 'You have joined the lobby',
+        lobbyId: 'lobby-123',
+      });
+
+      await controller.redeemInvite('abc12345', req);
+
+      expect(lobbyService.redeemInvite).toHaveBeenCalledWith(
+        'abc12345',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Join request history tests
+   * Verifies:
+   * - Status filter and cursor propagation
+   * - Applicant's own requests lookup
+   */
+  describe('join request history', () => {
+    const req = { user: mockUser } as AuthenticatedRequest;
+    const page = { items: [], nextCursor: null };
+
+    it('should retrieve the lobby request history through the service', async () => {
+      const query = { status: RequestStatus.REJECTED, limit: 10 };
+      mockLobbyService.getRequestHistory.mockResolvedValue(page);
+
+      const result = await controller.getRequestHistory(
+        'lobby-123',
+        query,
+        req,
+      );
+
+      expect(result).toEqual(page);
+      expect(lobbyService.getRequestHistory).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        query,
+      );
+    });
+
+    it("should retrieve the user's own requests through the service", async () => {
+      mockLobbyService.getMyRequests.mockResolvedValue(page);
+
+      const result = await controller.getMyRequests({}, req);
+
+      expect(result).toEqual(page);
+      expect(lobbyService.getMyRequests).toHaveBeenCalledWith(mockUser, {});
+    });
+  });
+
+  /**
+   * Ban tests
+   * Verifies:
+   * - Kick and ban option propagation
+   * - Ban details propagation
+   */
+  describe('bans', () => {
+    const req = { user: mockUser } as AuthenticatedRequest;
+
+    it('should pass the kick and ban option to the service', async () => {
+      const dto = { ban: true, reason: 'Spam' };
+      mockLobbyService.removeMember.mockResolvedValue({
+        message: 'Member has been removed and banned from the lobby',
+      });
+
+      await controller.removeMember('lobby-123', 'user-456', dto, req);
+
+      expect(lobbyService.removeMember).toHaveBeenCalledWith(
+        'lobby-123',
+        'user-456',
+        mockUser,
+        dto,
+      );
+    });
+
+    it('should ban a user through the service', async () => {
+      const dto = { userId: 'user-456', expiresInHours: 48 };
+      mockLobbyService.banUser.mockResolvedValue({
+        message: 'User has been banned from the lobby',
+      });
+
+      await controller.banUser('lobby-123', dto, req);
+
+      expect(lobbyService.banUser).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        dto,
+      );
+    });
+
+    it('should unban a user through the service', async () => {
+      await controller.unbanUser('lobby-123', 'user-456', req);
+
+      expect(lobbyService.unbanUser).toHaveBeenCalledWith(
+        'lobby-123',
+        'user-456',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Audit log tests
+   * Verifies:
+   * - Filter and pagination propagation
+   */
+  describe('getAuditLog', () => {
+    it('should retrieve the audit log through the service', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const query = { action: LobbyAuditAction.REQUEST_APPROVED, limit: 20 };
+      const page = { items: [], nextCursor: null };
+      mockLobbyService.getAuditLog.mockResolvedValue(page);
+
+      const result = await controller.getAuditLog('lobby-123', query, req);
+
+      expect(result).toEqual(page);
+      expect(lobbyService.getAuditLog).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        query,
+      );
+    });
+  });
+
+  /**
+   * Chat history tests
+   * Verifies:
+   * - Pagination propagation to the chat service
+   */
+  describe('getChatHistory', () => {
+    it('should retrieve the chat history through the chat service', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const page = { items: [], nextCursor: null };
+      mockLobbyChatService.getHistory.mockResolvedValue(page);
+
+      const result = await controller.getChatHistory(
+        'lobby-123',
+        { limit: 25 },
+        req,
+      );
+
+      expect(result).toEqual(page);
+      expect(mockLobbyChatService.getHistory).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser.id,
+        { limit: 25 },
+      );
+    });
+  });
+
+  /**
+   * Presence tests
+   * Verifies:
+   * - Presence lookup through the presence service
+   */
+  describe('getPresence', () => {
+    it('should retrieve the lobby presence through the presence service', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const presence = [
+        {
+          userId: 'user-1',
+          status: 'online',
+          updatedAt: '2026-10-19T10:00:00Z',
+        },
+      ];
+      mockLobbyPresenceService.getLobbyPresence.mockResolvedValue(presence);
+
+      const result = await controller.getPresence('lobby-123', req);
+
+      expect(result).toEqual(presence);
+      expect(mockLobbyPresenceService.getLobbyPresence).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Waitlist tests
+   * Verifies:
+   * - Position lookup and offer acceptance through the waitlist service
+   */
+  describe('waitlist', () => {
+    it("should retrieve the user's waitlist position", async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const status = {
+        lobbyId: 'lobby-123',
+        position: 2,
+        offeredAt: null,
+        offerExpiresAt: null,
+      };
+      mockLobbyWaitlistService.getStatus.mockResolvedValue(status);
+
+      const result = await controller.getWaitlistStatus('lobby-123', req);
+
+      expect(result).toEqual(status);
+      expect(mockLobbyWaitlistService.getStatus).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser.id,
+      );
+    });
+
+    it('should accept an offered slot through the waitlist service', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      mockLobbyWaitlistService.acceptOffer.mockResolvedValue({
+        message: 'You have joined the lobby',
+        lobbyId: 'lobby-123',
+      });
+
+      await controller.acceptWaitlistOffer('lobby-123', req);
+
+      expect(mockLobbyWaitlistService.acceptOffer).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+      );
+    });
+  });
+
+  /**
+   * Event tests
+   * Verifies:
+   * - Scheduling and RSVPs are delegated to the events service
+   */
+  describe('events', () => {
+    it('should schedule an event as the requesting user', async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+      const dto = {
+        title: 'Friday inhouse',
+        startsAt: new Date('2026-10-23T19:00:00Z'),
+        expectedPlayers: 10,
+      };
+
+      await controller.createEvent('lobby-123', dto, req);
+
+      expect(mockLobbyEventsService.createEvent).toHaveBeenCalledWith(
+        'lobby-123',
+        mockUser,
+        dto,
+      );
+    });
+
+    it("should record the user's RSVP", async () => {
+      const req = { user: mockUser } as AuthenticatedRequest;
+
+      await controller.rsvpToEvent(
+        'lobby-123',
+        'event-1',
+        { status: RsvpStatus.GOING },
+        req,
+      );
+
+      expect(mockLobbyEventsService.rsvp).toHaveBeenCalledWith(
+        'lobby-123',
+        'event-1',
+        mockUser,
+        RsvpStatus.GOING,
+      );
+    });
+  });
 });
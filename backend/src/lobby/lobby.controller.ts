@@ -8,6 +8,8 @@ import {
   Req,
   UseGuards,
   Delete,
+  Query,
+  Put,
 } from '@nestjs/common';
 import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
 import { CreateLobbyDto } from './dto/create-lobby.dto';
@@ -15,11 +17,45 @@ import { LobbyService } from './lobby.service';
 import { IsLobbyOwnerGuard } from './guards/is-lobby-owner.guard';
 import { AuthenticatedRequest } from 'src/auth/auth-request.interface';
 import { UpdateLobbyVisibilityDto } from './dto/update-lobby-visibility.dto';
+import { ListLobbiesQueryDto } from './dto/list-lobbies-query.dto';
+import { UpdateLobbyDto } from './dto/update-lobby.dto';
+import { DisbandLobbyDto } from './dto/disband-lobby.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { CreateLobbyInviteDto } from './dto/create-lobby-invite.dto';
+import { IsLobbyAdminGuard } from './guards/is-lobby-admin.guard';
+import { JoinRequestHistoryQueryDto } from './dto/join-request-history-query.dto';
+import { CreateJoinRequestDto } from './dto/create-join-request.dto';
+import { RemoveMemberDto } from './dto/remove-member.dto';
+import { BanUserDto } from './dto/ban-user.dto';
+import { AuditLogQueryDto } from 'src/audit/dto/audit-log-query.dto';
+import { LobbyChatService } from './lobby-chat.service';
+import { ChatHistoryQueryDto } from './dto/chat-history-query.dto';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+import { LobbyEventsService } from './lobby-events.service';
+import { CreateLobbyEventDto } from './dto/create-lobby-event.dto';
+import { UpdateLobbyEventDto } from './dto/update-lobby-event.dto';
+import { ListLobbyEventsQueryDto } from './dto/list-lobby-events-query.dto';
+import { LobbyEventRsvpDto } from './dto/lobby-event-rsvp.dto';
 
 @Controller('lobby')
 @UseGuards(JwtAuthGuard) // Applies JWT authentication guard to all routes
 export class LobbyController {
-  constructor(private readonly lobbyService: LobbyService) {}
+  constructor(
+    private readonly lobbyService: LobbyService,
+    private readonly lobbyChatService: LobbyChatService,
+    private readonly lobbyPresenceService: LobbyPresenceService,
+    private readonly lobbyWaitlistService: LobbyWaitlistService,
+    private readonly lobbyEventsService: LobbyEventsService,
+  ) {}
+
+  /**
+   * Lists public lobbies with search, filters, sorting and cursor pagination.
+   */
+  @Get()
+  listPublicLobbies(@Query() query: ListLobbiesQueryDto) {
+    return this.lobbyService.listPublicLobbies(query);
+  }
 
   /**
    * Creates a new lobby for the authenticated user.
@@ -30,14 +66,18 @@ export class LobbyController {
   }
 
   /**
-   * Sends a join request to a specific lobby.
+   * Asks to join a specific lobby, with an optional message and answers to
+   * the lobby's application questions, or the passphrase of a PASSWORD lobby.
+   * Depending on the lobby's join policy the user joins right away, waits for
+   * approval or is refused.
    */
   @Post(':lobbyId/request')
   createJoinRequest(
     @Param('lobbyId') lobbyId: string,
+    @Body() dto: CreateJoinRequestDto,
     @Req() req: AuthenticatedRequest,
   ) {
-    return this.lobbyService.createJoinRequest(lobbyId, req.user);
+    return this.lobbyService.createJoinRequest(lobbyId, req.user, dto);
   }
 
   /**
@@ -89,6 +129,72 @@ export class LobbyController {
     return this.lobbyService.getPendingRequests(lobbyId, req.user);
   }
 
+  /**
+   * Retrieves the paginated join request history of the lobby. Only the lobby owner is authorized.
+   */
+  @Get(':lobbyId/requests/history')
+  @UseGuards(IsLobbyOwnerGuard)
+  getRequestHistory(
+    @Param('lobbyId') lobbyId: string,
+    @Query() query: JoinRequestHistoryQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.getRequestHistory(lobbyId, req.user, query);
+  }
+
+  /**
+   * Retrieves the lobby's waitlist in order. Only the lobby owner and admins are authorized.
+   */
+  @Get(':lobbyId/waitlist')
+  @UseGuards(IsLobbyAdminGuard)
+  getWaitlist(@Param('lobbyId') lobbyId: string) {
+    return this.lobbyWaitlistService.getWaitlist(lobbyId);
+  }
+
+  /**
+   * Retrieves the authenticated user's position on the lobby's waitlist and any slot offered to them.
+   */
+  @Get(':lobbyId/waitlist/me')
+  getWaitlistStatus(
+    @Param('lobbyId') lobbyId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyWaitlistService.getStatus(lobbyId, req.user.id);
+  }
+
+  /**
+   * Accepts the lobby slot offered to the authenticated user from the waitlist.
+   */
+  @Post(':lobbyId/waitlist/accept')
+  acceptWaitlistOffer(
+    @Param('lobbyId') lobbyId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyWaitlistService.acceptOffer(lobbyId, req.user);
+  }
+
+  /**
+   * Removes the authenticated user from the lobby's waitlist.
+   */
+  @Delete(':lobbyId/waitlist')
+  leaveWaitlist(
+    @Param('lobbyId') lobbyId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyWaitlistService.leave(lobbyId, req.user.id);
+  }
+
+  /**
+   * Retrieves the join requests sent by the authenticated user.
+   */
+  @Get('requests/mine')
+  getMyRequests(
+    @Query() query: JoinRequestHistoryQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.getMyRequests(req.user, query);
+  }
+
   /**
    * Retrieves the lobby the authenticated user currently belongs to.
    */
@@ -125,8 +231,48 @@ export class LobbyController {
     );
   }
 
+  /**
+   * Updates the lobby settings (name, description, image, capacity, application questions, join policy). Only the owner is authorized.
+   */
+  @Patch('/:lobbyId')
+  @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
+  updateLobby(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: UpdateLobbyDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.updateLobby(lobbyId, req.user, dto);
+  }
+
+  /**
+   * Disbands the lobby, detaching all members and archiving or deleting its games. Only the owner is authorized.
+   */
+  @Post(':lobbyId/disband')
+  @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
+  disbandLobby(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: DisbandLobbyDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.disbandLobby(lobbyId, req.user, dto.gamesAction);
+  }
+
+  /**
+   * Transfers lobby ownership to another member. Only the owner is authorized.
+   */
+  @Patch(':lobbyId/owner')
+  @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
+  transferOwnership(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: TransferOwnershipDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.transferOwnership(lobbyId, dto.userId, req.user);
+  }
+
   /**
    * Allows the authenticated user to leave their current lobby.
+   * The owner can only leave once an admin is available to take over.
    */
   @Post('leave')
   leaveLobby(@Req() req: AuthenticatedRequest) {
@@ -134,15 +280,234 @@ export class LobbyController {
   }
 
   /**
-   * Removes a member from the lobby. Only the lobby owner is authorized.
+   * Promotes a member to lobby admin. Only the lobby owner is authorized.
+   */
+  @Patch(':lobbyId/members/:userId/promote')
+  @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
+  promoteMember(
+    @Param('lobbyId') lobbyId: string,
+    @Param('userId') userId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.promoteMember(lobbyId, userId, req.user);
+  }
+
+  /**
+   * Demotes a lobby admin back to member. Only the lobby owner is authorized.
+   */
+  @Patch(':lobbyId/members/:userId/demote')
+  @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
+  demoteMember(
+    @Param('lobbyId') lobbyId: string,
+    @Param('userId') userId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.demoteMember(lobbyId, userId, req.user);
+  }
+
+  /**
+   * Removes a member from the lobby, optionally banning them. Only the lobby owner is authorized.
    */
   @Delete(':lobbyId/members/:userId')
   @UseGuards(JwtAuthGuard, IsLobbyOwnerGuard)
   removeMember(
     @Param('lobbyId') lobbyId: string,
     @Param('userId') userId: string,
+    @Body() dto: RemoveMemberDto,
     @Req() req: AuthenticatedRequest,
   ) {
-    return this.lobbyService.removeMember(lobbyId, userId, req.user);
+    return this.lobbyService.removeMember(lobbyId, userId, req.user, dto);
+  }
+
+  /**
+   * Lists the active bans of the lobby. Only the lobby owner is authorized.
+   */
+  @Get(':lobbyId/bans')
+  @UseGuards(IsLobbyOwnerGuard)
+  getBans(@Param('lobbyId') lobbyId: string, @Req() req: AuthenticatedRequest) {
+    return this.lobbyService.getBans(lobbyId, req.user);
+  }
+
+  /**
+   * Bans a user from the lobby, removing them if they are a member. Only the lobby owner is authorized.
+   */
+  @Post(':lobbyId/bans')
+  @UseGuards(IsLobbyOwnerGuard)
+  banUser(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: BanUserDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.banUser(lobbyId, req.user, dto);
+  }
+
+  /**
+   * Lifts a user's ban from the lobby. Only the lobby owner is authorized.
+   */
+  @Delete(':lobbyId/bans/:userId')
+  @UseGuards(IsLobbyOwnerGuard)
+  unbanUser(
+    @Param('lobbyId') lobbyId: string,
+    @Param('userId') userId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.unbanUser(lobbyId, userId, req.user);
+  }
+
+  /**
+   * Retrieves the presence (online, away, in-game) of the lobby's connected members. Only lobby members are authorized.
+   */
+  @Get(':lobbyId/presence')
+  getPresence(
+    @Param('lobbyId') lobbyId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyPresenceService.getLobbyPresence(lobbyId, req.user);
+  }
+
+  /**
+   * Retrieves the paginated chat history of the lobby. Only lobby members are authorized.
+   */
+  @Get(':lobbyId/chat')
+  getChatHistory(
+    @Param('lobbyId') lobbyId: string,
+    @Query() query: ChatHistoryQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyChatService.getHistory(lobbyId, req.user.id, query);
+  }
+
+  /**
+   * Lists the upcoming or past events of the lobby with their RSVPs. Only lobby members are authorized.
+   */
+  @Get(':lobbyId/events')
+  listEvents(
+    @Param('lobbyId') lobbyId: string,
+    @Query() query: ListLobbyEventsQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyEventsService.listEvents(lobbyId, req.user, query);
+  }
+
+  /**
+   * Schedules a lobby event. Only the lobby owner and admins are authorized.
+   */
+  @Post(':lobbyId/events')
+  @UseGuards(IsLobbyAdminGuard)
+  createEvent(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: CreateLobbyEventDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyEventsService.createEvent(lobbyId, req.user, dto);
+  }
+
+  /**
+   * Retrieves an event with its RSVPs and the games played during it. Only lobby members are authorized.
+   */
+  @Get(':lobbyId/events/:eventId')
+  getEvent(
+    @Param('lobbyId') lobbyId: string,
+    @Param('eventId') eventId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyEventsService.getEvent(lobbyId, eventId, req.user);
+  }
+
+  /**
+   * Updates an upcoming or ongoing event. Only the lobby owner and admins are authorized.
+   */
+  @Patch(':lobbyId/events/:eventId')
+  @UseGuards(IsLobbyAdminGuard)
+  updateEvent(
+    @Param('lobbyId') lobbyId: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: UpdateLobbyEventDto,
+  ) {
+    return this.lobbyEventsService.updateEvent(lobbyId, eventId, dto);
+  }
+
+  /**
+   * Cancels an event. Only the lobby owner and admins are authorized.
+   */
+  @Delete(':lobbyId/events/:eventId')
+  @UseGuards(IsLobbyAdminGuard)
+  cancelEvent(
+    @Param('lobbyId') lobbyId: string,
+    @Param('eventId') eventId: string,
+  ) {
+    return this.lobbyEventsService.cancelEvent(lobbyId, eventId);
+  }
+
+  /**
+   * Answers an event as going, maybe or declined. Only lobby members are authorized.
+   */
+  @Put(':lobbyId/events/:eventId/rsvp')
+  rsvpToEvent(
+    @Param('lobbyId') lobbyId: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: LobbyEventRsvpDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyEventsService.rsvp(lobbyId, eventId, req.user, dto.status);
+  }
+
+  /**
+   * Retrieves the filterable, paginated audit log of the lobby. Only the lobby owner and admins are authorized.
+   */
+  @Get(':lobbyId/audit')
+  @UseGuards(IsLobbyAdminGuard)
+  getAuditLog(
+    @Param('lobbyId') lobbyId: string,
+    @Query() query: AuditLogQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.getAuditLog(lobbyId, req.user, query);
+  }
+
+  /**
+   * Lists the invites of a lobby. Only the lobby owner and admins are authorized.
+   */
+  @Get(':lobbyId/invites')
+  @UseGuards(IsLobbyAdminGuard)
+  getInvites(
+    @Param('lobbyId') lobbyId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.getInvites(lobbyId, req.user);
+  }
+
+  /**
+   * Creates an invite code with optional expiry and max uses. Only the lobby owner and admins are authorized.
+   */
+  @Post(':lobbyId/invites')
+  @UseGuards(IsLobbyAdminGuard)
+  createInvite(
+    @Param('lobbyId') lobbyId: string,
+    @Body() dto: CreateLobbyInviteDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.createInvite(lobbyId, req.user, dto);
+  }
+
+  /**
+   * Revokes an invite code. Only the lobby owner and admins are authorized.
+   */
+  @Delete(':lobbyId/invites/:inviteId')
+  @UseGuards(IsLobbyAdminGuard)
+  revokeInvite(
+    @Param('lobbyId') lobbyId: string,
+    @Param('inviteId') inviteId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.lobbyService.revokeInvite(lobbyId, inviteId, req.user);
+  }
+
+  /**
+   * Redeems an invite code and joins the lobby directly.
+   */
+  @Post('invites/:code/redeem')
+  redeemInvite(@Param('code') code: string, @Req() req: AuthenticatedRequest) {
+    return this.lobbyService.redeemInvite(code, req.user);
   }
 }
@@ -3,24 +3,46 @@ import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { LobbyGateway } from './lobby.gateway';
 import { LobbyService } from './lobby.service';
+import { LobbyChatService } from './lobby-chat.service';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { UsersService } from '../users/users.service';
 import { WsException } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Handshake } from 'socket.io/dist/socket-types';
+import { UserRole } from '@prisma/client';
 
 // Interface to define a socket with user authentication details
 interface AuthenticatedSocket extends Socket {
   user: {
     id: string;
+    steamId: string;
     username: string;
     lobbyId?: string | null;
     memberLobbyId?: string | null;
+    sessionExpiresAt: number | null;
   };
 }
 
+// Socket overrides where session fields of the user are optional
+type MockSocketOverrides = Partial<Omit<AuthenticatedSocket, 'user'>> & {
+  user?: Omit<AuthenticatedSocket['user'], 'steamId' | 'sessionExpiresAt'> &
+    Partial<AuthenticatedSocket['user']>;
+};
+
 // Mock constants for JWT secret, user, and lobby details
 const MOCK_JWT_SECRET = 'test-secret';
 const MOCK_LOBBY_ID = 'lobby-1';
 const MOCK_USER_ID = 'user-1';
+const MOCK_STEAM_ID = 'steam-1';
+
+// User as resolved from the database by Steam ID
+const mockUser = {
+  id: MOCK_USER_ID,
+  steamId: MOCK_STEAM_ID,
+  username: 'testuser',
+  lobbyId: null as string | null,
+  lobby: null as { id: string } | null,
+};
 
 // Mock Handshake object, which represents information about the connection
 const mockHandshake: Handshake = {
@@ -37,7 +59,7 @@ const mockHandshake: Handshake = {
 
 // Helper function to create a mock socket with customizable overrides
 const createMockSocket = (
-  overrides: Partial<AuthenticatedSocket> = {},
+  overrides: MockSocketOverrides = {},
 ): AuthenticatedSocket =>
   ({
     id: 'socket-1',
@@ -46,17 +68,51 @@ const createMockSocket = (
     join: jest.fn().mockResolvedValue(undefined),
     emit: jest.fn(),
     ...overrides,
+    ...(overrides.user && {
+      user: {
+        steamId: MOCK_STEAM_ID,
+        sessionExpiresAt: null,
+        ...overrides.user,
+      },
+    }),
   }) as AuthenticatedSocket;
 
 describe('LobbyGateway', () => {
   let gateway: LobbyGateway;
   let jwtService: JwtService;
 
+  // Mock chat service returning stored messages
+  const mockLobbyChatService = {
+    sendMessage: jest.fn(),
+    editMessage: jest.fn(),
+    deleteMessage: jest.fn(),
+  };
+
+  // Mock presence service backed by Redis in production
+  const mockLobbyPresenceService = {
+    connect: jest.fn().mockResolvedValue({ status: 'online' }),
+    disconnect: jest.fn(),
+    setStatus: jest.fn(),
+    heartbeat: jest.fn(),
+    removeMember: jest.fn(),
+    clearLobby: jest.fn(),
+  };
+
+  // Mock users service resolving the session's user
+  const mockUsersService = {
+    findBySteamId: jest.fn().mockResolvedValue(mockUser),
+  };
+
   // Mock Server object to simulate WebSocket server behavior
   const mockServer = {
     to: jest.fn().mockReturnValue({
       emit: jest.fn(),
     }),
+    in: jest.fn().mockReturnValue({
+      fetchSockets: jest.fn().mockResolvedValue([]),
+      socketsJoin: jest.fn(),
+      socketsLeave: jest.fn(),
+    }),
     on: jest.fn(),
   };
 
@@ -69,7 +125,8 @@ describe('LobbyGateway', () => {
           provide: JwtService,
           useValue: {
             verifyAsync: jest.fn().mockResolvedValue({
-              id: MOCK_USER_ID,
+              sub: MOCK_USER_ID,
+              steamId: MOCK_STEAM_ID,
               username: 'testuser',
             }),
           },
@@ -86,6 +143,18 @@ describe('LobbyGateway', () => {
           provide: LobbyService,
           useValue: {},
         },
+        {
+          provide: LobbyChatService,
+          useValue: mockLobbyChatService,
+        },
+        {
+          provide: LobbyPresenceService,
+          useValue: mockLobbyPresenceService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
       ],
     }).compile();
 
@@ -97,10 +166,10 @@ describe('LobbyGateway', () => {
     gateway['server'] = mockServer as unknown as Server;
   });
 
-  // Reset mocks and connected users before each test
+  // Reset mocks and flood-limit state before each test
   beforeEach(() => {
     jest.clearAllMocks();
-    gateway['connectedUsers'].clear();
+    gateway['chatTimestamps'].clear();
   });
 
   // Test case for `afterInit` method to check server event listener attachment
@@ -126,16 +195,14 @@ describe('LobbyGateway', () => {
 
       // Verify the user is assigned to the correct room
       expect(socket.join).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
-      expect(gateway['connectedUsers'].has(MOCK_USER_ID)).toBe(true);
+      expect(socket.user?.id).toBe(MOCK_USER_ID);
     });
 
-    it('should handle lobbyId and memberLobbyId', async () => {
-      // Simulate successful JWT verification with additional lobby info
-      (jwtService.verifyAsync as jest.Mock).mockResolvedValueOnce({
-        id: MOCK_USER_ID,
-        username: 'testuser',
-        lobbyId: MOCK_LOBBY_ID,
-        memberLobbyId: 'lobby-2',
+    it('should join lobby rooms from the database', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: 'lobby-2',
+        lobby: { id: MOCK_LOBBY_ID },
       });
 
       const socket = createMockSocket({
@@ -145,10 +212,158 @@ describe('LobbyGateway', () => {
       await gateway.handleConnection(socket);
 
       // Ensure the user joins the correct lobbies
+      expect(mockUsersService.findBySteamId).toHaveBeenCalledWith(
+        MOCK_STEAM_ID,
+      );
       expect(socket.join).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
       expect(socket.join).toHaveBeenCalledWith(`lobby-lobby-2`);
     });
 
+    it('should ignore stale lobby claims in the token', async () => {
+      (jwtService.verifyAsync as jest.Mock).mockResolvedValueOnce({
+        sub: MOCK_USER_ID,
+        steamId: MOCK_STEAM_ID,
+        memberLobbyId: 'old-lobby',
+      });
+
+      const socket = createMockSocket({
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+
+      await gateway.handleConnection(socket);
+
+      expect(socket.join).not.toHaveBeenCalledWith('lobby-old-lobby');
+      expect(socket.user.memberLobbyId).toBeNull();
+    });
+
+    it('should mark lobby members online and notify their lobby', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: MOCK_LOBBY_ID,
+      });
+
+      const socket = createMockSocket({
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+
+      await gateway.handleConnection(socket);
+
+      expect(mockLobbyPresenceService.connect).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+        'socket-1',
+      );
+      expect(mockServer.to).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, status: 'online' }),
+      );
+    });
+
+    it('should announce the kept status of members already online', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: MOCK_LOBBY_ID,
+      });
+      mockLobbyPresenceService.connect.mockResolvedValueOnce({
+        status: 'in-game',
+      });
+
+      const socket = createMockSocket({
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+
+      await gateway.handleConnection(socket);
+
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, status: 'in-game' }),
+      );
+    });
+
+    it('should still connect when presence tracking fails', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: MOCK_LOBBY_ID,
+      });
+      mockLobbyPresenceService.connect.mockRejectedValueOnce(
+        new Error('Redis unavailable'),
+      );
+
+      const socket = createMockSocket({
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+
+      await gateway.handleConnection(socket);
+
+      expect(socket.join).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
+      expect(socket.disconnect).not.toHaveBeenCalled();
+    });
+  });
+
+  // Test cases for `handleDisconnect` method
+  describe('handleDisconnect', () => {
+    // Member of the lobby in the database
+    const memberInDatabase = () =>
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: MOCK_LOBBY_ID,
+      });
+
+    it('should notify the lobby once the member is offline', async () => {
+      memberInDatabase();
+      mockLobbyPresenceService.disconnect.mockResolvedValueOnce(true);
+      const socket = createMockSocket({
+        user: {
+          id: MOCK_USER_ID,
+          username: 'user',
+          memberLobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await gateway.handleDisconnect(socket);
+
+      expect(mockLobbyPresenceService.disconnect).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+        'socket-1',
+      );
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, status: 'offline' }),
+      );
+    });
+
+    it('should stay silent while the member has other sockets open', async () => {
+      memberInDatabase();
+      mockLobbyPresenceService.disconnect.mockResolvedValueOnce(false);
+      const socket = createMockSocket({
+        user: {
+          id: MOCK_USER_ID,
+          username: 'user',
+          memberLobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await gateway.handleDisconnect(socket);
+
+      expect(mockServer.to().emit).not.toHaveBeenCalled();
+    });
+
+    it('should not touch the presence of a lobby the user has left', async () => {
+      const socket = createMockSocket({
+        user: {
+          id: MOCK_USER_ID,
+          username: 'user',
+          memberLobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await gateway.handleDisconnect(socket);
+
+      expect(mockLobbyPresenceService.disconnect).not.toHaveBeenCalled();
+    });
+
     it('should throw on missing token', async () => {
       // Simulate a socket with no token
       const socket = createMockSocket();
@@ -176,11 +391,123 @@ describe('LobbyGateway', () => {
 
       expect(socket.disconnect).toHaveBeenCalledWith(true); // Check that disconnect was called
     });
+
+    it('should read the token from the jwt cookie', async () => {
+      const socket = createMockSocket({
+        handshake: {
+          ...mockHandshake,
+          headers: { cookie: 'theme=dark; jwt=cookie-token' },
+        },
+      });
+
+      await gateway.handleConnection(socket);
+
+      expect(jwtService.verifyAsync).toHaveBeenCalledWith('cookie-token', {
+        secret: MOCK_JWT_SECRET,
+      });
+      expect(socket.user.steamId).toBe(MOCK_STEAM_ID);
+    });
+
+    it('should reject tokens whose user no longer exists', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce(null);
+      const socket = createMockSocket({
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+
+      await expect(gateway.handleConnection(socket)).rejects.toThrowError(
+        new WsException('User not found'),
+      );
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+  });
+
+  // Test cases for re-checking sessions of long-lived sockets
+  describe('verifySessions', () => {
+    const connect = async (id: string, exp?: number) => {
+      (jwtService.verifyAsync as jest.Mock).mockResolvedValueOnce({
+        sub: MOCK_USER_ID,
+        steamId: MOCK_STEAM_ID,
+        exp,
+      });
+      const socket = createMockSocket({
+        id,
+        handshake: { ...mockHandshake, auth: { token: 'valid' } },
+      });
+      await gateway.handleConnection(socket);
+      return socket;
+    };
+
+    afterEach(() => gateway['authenticatedSockets'].clear());
+
+    it('should disconnect sockets whose token has expired', async () => {
+      const expired = await connect('expired', Date.now() / 1000 - 1);
+      const active = await connect('active', Date.now() / 1000 + 3600);
+
+      await gateway.verifySessions();
+
+      expect(expired.emit).toHaveBeenCalledWith(
+        'session-ended',
+        expect.objectContaining({ reason: 'expired' }),
+      );
+      expect(expired.disconnect).toHaveBeenCalledWith(true);
+      expect(active.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect sockets whose user was removed', async () => {
+      const socket = await connect('revoked');
+      mockUsersService.findBySteamId.mockResolvedValueOnce(null);
+
+      await gateway.verifySessions();
+
+      expect(socket.emit).toHaveBeenCalledWith(
+        'session-ended',
+        expect.objectContaining({ reason: 'revoked' }),
+      );
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('should keep sockets open when the lookup fails', async () => {
+      const socket = await connect('flaky');
+      mockUsersService.findBySteamId.mockRejectedValueOnce(
+        new Error('Database unavailable'),
+      );
+
+      await gateway.verifySessions();
+
+      expect(socket.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should renew the presence of sockets held by this instance', async () => {
+      await connect('first');
+      await connect('second');
+
+      await gateway.renewPresence();
+
+      expect(mockLobbyPresenceService.heartbeat).toHaveBeenCalledWith(
+        MOCK_USER_ID,
+        ['first', 'second'],
+      );
+    });
+
+    it('should stop tracking disconnected sockets', async () => {
+      const socket = await connect('gone');
+
+      await gateway.handleDisconnect(socket);
+
+      expect(gateway['authenticatedSockets'].has('gone')).toBe(false);
+    });
   });
 
   // Test cases for message handling methods like join request, response, etc.
   describe('Message Handling', () => {
-    it('should emit join-request for lobby owners', () => {
+    // The owner as currently stored, whatever the socket saw at connect time
+    const ownerInDatabase = () =>
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobby: { id: MOCK_LOBBY_ID },
+      });
+
+    it('should emit join-request for lobby owners', async () => {
       const socket = createMockSocket({
         user: {
           id: MOCK_USER_ID,
@@ -188,14 +515,28 @@ describe('LobbyGateway', () => {
           lobbyId: MOCK_LOBBY_ID,
         },
       });
+      ownerInDatabase();
 
-      gateway.handleJoinRequest(socket, { lobbyId: MOCK_LOBBY_ID });
+      await gateway.handleJoinRequest(socket, {
+        lobbyId: MOCK_LOBBY_ID,
+        message: 'Let me in',
+      });
 
-      // Verify that the server emits a join request to the correct lobby
-      expect(mockServer.to).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      // Verify that only the owner receives the application
+      expect(mockServer.to).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
+      expect(mockServer.to).not.toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'join-request',
+        expect.objectContaining({
+          lobbyId: MOCK_LOBBY_ID,
+          userId: MOCK_USER_ID,
+          message: 'Let me in',
+          answers: [],
+        }),
+      );
     });
 
-    it('should throw if non-owner handles join-request', () => {
+    it('should throw if non-owner handles join-request', async () => {
       const socket = createMockSocket({
         user: {
           id: MOCK_USER_ID,
@@ -204,12 +545,12 @@ describe('LobbyGateway', () => {
       });
 
       // Non-owners should not be able to handle join requests
-      expect(() =>
+      await expect(
         gateway.handleJoinRequest(socket, { lobbyId: MOCK_LOBBY_ID }),
-      ).toThrow(WsException);
+      ).rejects.toThrow(WsException);
     });
 
-    it('should emit request-updated with accepted status', () => {
+    it('should emit request-updated with accepted status', async () => {
       const socket = createMockSocket({
         user: {
           id: 'owner',
@@ -217,8 +558,9 @@ describe('LobbyGateway', () => {
           lobbyId: MOCK_LOBBY_ID,
         },
       });
+      ownerInDatabase();
 
-      gateway.handleRequestResponse(socket, {
+      await gateway.handleRequestResponse(socket, {
         userId: MOCK_USER_ID,
         lobbyId: MOCK_LOBBY_ID,
         status: 'accepted',
@@ -228,7 +570,7 @@ describe('LobbyGateway', () => {
       expect(mockServer.to).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
     });
 
-    it('should emit request-updated with rejected status', () => {
+    it('should emit request-updated with rejected status', async () => {
       const socket = createMockSocket({
         user: {
           id: 'owner',
@@ -236,8 +578,9 @@ describe('LobbyGateway', () => {
           lobbyId: MOCK_LOBBY_ID,
         },
       });
+      ownerInDatabase();
 
-      gateway.handleRejectRequest(socket, {
+      await gateway.handleRejectRequest(socket, {
         userId: MOCK_USER_ID,
         lobbyId: MOCK_LOBBY_ID,
         status: 'rejected',
@@ -246,6 +589,180 @@ describe('LobbyGateway', () => {
       // Verify that the server emits a request update with rejected status
       expect(mockServer.to).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
     });
+
+    it('should stop former owners from responding to requests', async () => {
+      // Connected as owner, then transferred ownership or disbanded the lobby
+      const socket = createMockSocket({
+        user: {
+          id: 'owner',
+          username: 'owner',
+          lobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await expect(
+        gateway.handleRequestResponse(socket, {
+          userId: MOCK_USER_ID,
+          lobbyId: MOCK_LOBBY_ID,
+          status: 'accepted',
+        }),
+      ).rejects.toThrow('Only lobby owner can respond to requests');
+      expect(socket.user.lobbyId).toBeNull();
+      expect(mockServer.to).not.toHaveBeenCalled();
+    });
+  });
+
+  // Test cases for presence updates
+  describe('Presence', () => {
+    it('should update the member status and notify the lobby', async () => {
+      mockUsersService.findBySteamId.mockResolvedValueOnce({
+        ...mockUser,
+        lobbyId: MOCK_LOBBY_ID,
+      });
+      const socket = createMockSocket({
+        user: {
+          id: MOCK_USER_ID,
+          username: 'user',
+          memberLobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await gateway.handlePresenceUpdate(socket, { status: 'in-game' });
+
+      expect(mockLobbyPresenceService.setStatus).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+        'in-game',
+      );
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ status: 'in-game' }),
+      );
+    });
+
+    it('should throw if the user is not in a lobby', async () => {
+      const socket = createMockSocket({
+        user: { id: MOCK_USER_ID, username: 'user' },
+      });
+
+      await expect(
+        gateway.handlePresenceUpdate(socket, { status: 'away' }),
+      ).rejects.toThrow(WsException);
+    });
+
+    it('should throw if the user was removed from the lobby', async () => {
+      const socket = createMockSocket({
+        user: {
+          id: MOCK_USER_ID,
+          username: 'user',
+          memberLobbyId: MOCK_LOBBY_ID,
+        },
+      });
+
+      await expect(
+        gateway.handlePresenceUpdate(socket, { status: 'away' }),
+      ).rejects.toThrow(WsException);
+      expect(mockLobbyPresenceService.setStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  // Test cases for chat messages
+  describe('Chat', () => {
+    const chatLobbyId = '3f1c2b7e-8a4d-4c3e-9b2a-1d5e6f7a8b9c';
+    const messageId = '9b2a1d5e-6f7a-4c3e-8a4d-3f1c2b7e8b9c';
+
+    it('should store a chat message and deliver it to the lobby', async () => {
+      const socket = createMockSocket({
+        user: { id: MOCK_USER_ID, username: 'user' },
+      });
+      const message = { id: messageId, lobbyId: chatLobbyId, content: 'gg' };
+      mockLobbyChatService.sendMessage.mockResolvedValueOnce(message);
+
+      await gateway.handleChatMessage(socket, {
+        lobbyId: chatLobbyId,
+        content: 'gg',
+      });
+
+      expect(mockLobbyChatService.sendMessage).toHaveBeenCalledWith(
+        chatLobbyId,
+        MOCK_USER_ID,
+        'gg',
+      );
+      expect(mockServer.to).toHaveBeenCalledWith(`lobby-${chatLobbyId}`);
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'chat-message',
+        message,
+      );
+    });
+
+    it('should reject messages from non-members', async () => {
+      const socket = createMockSocket({
+        user: { id: MOCK_USER_ID, username: 'user' },
+      });
+      mockLobbyChatService.sendMessage.mockRejectedValueOnce(
+        new Error('Only lobby members can use the lobby chat'),
+      );
+
+      await expect(
+        gateway.handleChatMessage(socket, {
+          lobbyId: chatLobbyId,
+          content: 'hi',
+        }),
+      ).rejects.toThrow(WsException);
+      expect(mockServer.to().emit).not.toHaveBeenCalled();
+    });
+
+    it('should limit how fast a socket can send messages', async () => {
+      const socket = createMockSocket({
+        user: { id: MOCK_USER_ID, username: 'user' },
+      });
+      mockLobbyChatService.sendMessage.mockResolvedValue({
+        id: messageId,
+        lobbyId: chatLobbyId,
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await gateway.handleChatMessage(socket, {
+          lobbyId: chatLobbyId,
+          content: `message ${i}`,
+        });
+      }
+
+      await expect(
+        gateway.handleChatMessage(socket, {
+          lobbyId: chatLobbyId,
+          content: 'one too many',
+        }),
+      ).rejects.toThrow('You are sending messages too quickly');
+      expect(mockLobbyChatService.sendMessage).toHaveBeenCalledTimes(5);
+    });
+
+    it('should broadcast message edits and deletions', async () => {
+      const socket = createMockSocket({
+        user: { id: MOCK_USER_ID, username: 'user' },
+      });
+      mockLobbyChatService.editMessage.mockResolvedValueOnce({
+        id: messageId,
+        lobbyId: chatLobbyId,
+        content: 'edited',
+      });
+      mockLobbyChatService.deleteMessage.mockResolvedValueOnce({
+        id: messageId,
+        lobbyId: chatLobbyId,
+      });
+
+      await gateway.handleChatEdit(socket, { messageId, content: 'edited' });
+      await gateway.handleChatDelete(socket, { messageId });
+
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'chat-message-edited',
+        expect.objectContaining({ content: 'edited' }),
+      );
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'chat-message-deleted',
+        expect.objectContaining({ id: messageId, deletedBy: MOCK_USER_ID }),
+      );
+    });
   });
 
   // Test cases for notification methods
@@ -277,6 +794,107 @@ describe('LobbyGateway', () => {
       );
     });
 
+    it('should notify lobby updated', () => {
+      gateway.notifyLobbyUpdated(MOCK_LOBBY_ID, {
+        name: 'Lobby',
+        description: 'Description',
+        imageUrl: null,
+        capacity: 10,
+        joinPolicy: 'APPROVAL',
+      });
+      // Verify that the server emits a 'lobby-updated' event
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'lobby-updated',
+        expect.objectContaining({ name: 'Lobby', capacity: 10 }),
+      );
+    });
+
+    it('should push waitlist positions and offers to the user', () => {
+      const expiresAt = new Date('2026-10-19T12:00:00Z');
+      gateway.notifyWaitlistPosition('user-1', MOCK_LOBBY_ID, 2);
+      gateway.notifyWaitlistOffer('user-1', MOCK_LOBBY_ID, expiresAt);
+
+      expect(mockServer.to).toHaveBeenCalledWith('user-user-1');
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'waitlist-position',
+        expect.objectContaining({ lobbyId: MOCK_LOBBY_ID, position: 2 }),
+      );
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'waitlist-offer',
+        expect.objectContaining({
+          lobbyId: MOCK_LOBBY_ID,
+          expiresAt: expiresAt.toISOString(),
+        }),
+      );
+    });
+
+    it('should remind the lobby room of an upcoming event', () => {
+      const startsAt = new Date('2026-10-23T19:00:00Z');
+      gateway.notifyEventReminder(MOCK_LOBBY_ID, {
+        id: 'event-1',
+        lobbyId: MOCK_LOBBY_ID,
+        title: 'Friday inhouse',
+        startsAt,
+        endsAt: new Date('2026-10-23T22:00:00Z'),
+        expectedPlayers: 10,
+        notes: null,
+        createdById: MOCK_USER_ID,
+        reminderSentAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(mockServer.to).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'event-reminder',
+        expect.objectContaining({
+          eventId: 'event-1',
+          title: 'Friday inhouse',
+          startsAt: startsAt.toISOString(),
+        }),
+      );
+    });
+
+    it('should notify lobby disbanded', () => {
+      gateway.notifyLobbyDisbanded(MOCK_LOBBY_ID);
+      // Verify that the server emits a 'lobby-disbanded' event
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'lobby-disbanded',
+        expect.objectContaining({ lobbyId: MOCK_LOBBY_ID }),
+      );
+    });
+
+    it('should notify ownership transferred', () => {
+      gateway.notifyOwnershipTransferred(
+        MOCK_LOBBY_ID,
+        'owner',
+        MOCK_USER_ID,
+        'user',
+      );
+      // Verify that the server emits an 'ownership-transferred' event
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'ownership-transferred',
+        expect.objectContaining({
+          previousOwnerId: 'owner',
+          newOwnerId: MOCK_USER_ID,
+        }),
+      );
+    });
+
+    it('should notify member role changed', () => {
+      gateway.notifyMemberRoleChanged(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+        'user',
+        UserRole.ADMIN,
+      );
+      // Verify that the server emits a 'member-role-changed' event
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'member-role-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, role: 'ADMIN' }),
+      );
+    });
+
     it('should notify request cancelled', () => {
       gateway.notifyRequestCancelled(MOCK_LOBBY_ID, MOCK_USER_ID);
       // Verify that the server emits a 'request-cancelled' event
@@ -285,20 +903,105 @@ describe('LobbyGateway', () => {
         expect.any(Object),
       );
     });
+
+    it('should notify the owner about an expired request', () => {
+      gateway.notifyRequestExpired(MOCK_LOBBY_ID, 'owner-1', MOCK_USER_ID);
+      // Verify that the owner's room receives a 'request-expired' event
+      expect(mockServer.to).toHaveBeenCalledWith('user-owner-1');
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'request-expired',
+        expect.objectContaining({
+          lobbyId: MOCK_LOBBY_ID,
+          userId: MOCK_USER_ID,
+        }),
+      );
+    });
+  });
+
+  // Test cases for keeping socket rooms in sync with lobby membership
+  describe('lobby rooms', () => {
+    it('should add the user sockets to the lobby room', async () => {
+      await gateway.joinLobbyRoom(MOCK_USER_ID, MOCK_LOBBY_ID);
+
+      expect(mockServer.in).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
+      expect(mockServer.in().socketsJoin).toHaveBeenCalledWith(
+        `lobby-${MOCK_LOBBY_ID}`,
+      );
+    });
+
+    it('should show a connected new member as present', async () => {
+      mockServer.in().fetchSockets.mockResolvedValueOnce([{ id: 'socket-1' }]);
+
+      await gateway.joinLobbyRoom(MOCK_USER_ID, MOCK_LOBBY_ID);
+
+      expect(mockLobbyPresenceService.connect).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+        'socket-1',
+      );
+      expect(mockServer.to).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, status: 'online' }),
+      );
+    });
+
+    it('should not show an offline new member as present', async () => {
+      await gateway.joinLobbyRoom(MOCK_USER_ID, MOCK_LOBBY_ID);
+
+      expect(mockLobbyPresenceService.connect).not.toHaveBeenCalled();
+      expect(mockServer.to().emit).not.toHaveBeenCalled();
+    });
+
+    it('should remove the user sockets from the lobby room', async () => {
+      await gateway.leaveLobbyRoom(MOCK_USER_ID, MOCK_LOBBY_ID);
+
+      expect(mockServer.in).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
+      expect(mockServer.in().socketsLeave).toHaveBeenCalledWith(
+        `lobby-${MOCK_LOBBY_ID}`,
+      );
+    });
+
+    it('should show a former member as offline', async () => {
+      mockLobbyPresenceService.removeMember.mockResolvedValueOnce(true);
+
+      await gateway.leaveLobbyRoom(MOCK_USER_ID, MOCK_LOBBY_ID);
+
+      expect(mockLobbyPresenceService.removeMember).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+        MOCK_USER_ID,
+      );
+      expect(mockServer.to().emit).toHaveBeenCalledWith(
+        'presence-changed',
+        expect.objectContaining({ userId: MOCK_USER_ID, status: 'offline' }),
+      );
+    });
+
+    it('should empty the room of a disbanded lobby', async () => {
+      await gateway.closeLobbyRoom(MOCK_LOBBY_ID);
+
+      expect(mockServer.in).toHaveBeenCalledWith(`lobby-${MOCK_LOBBY_ID}`);
+      expect(mockServer.in().socketsLeave).toHaveBeenCalledWith(
+        `lobby-${MOCK_LOBBY_ID}`,
+      );
+      expect(mockLobbyPresenceService.clearLobby).toHaveBeenCalledWith(
+        MOCK_LOBBY_ID,
+      );
+    });
   });
 
   // Test cases for checking if a user is connected
   describe('isUserConnected', () => {
-    it('should return true for connected user', () => {
-      const socket = createMockSocket();
-      gateway['connectedUsers'].set(MOCK_USER_ID, socket);
-      // Check if the user is marked as connected
-      expect(gateway.isUserConnected(MOCK_USER_ID)).toBe(true);
+    it('should return true when the user room has sockets', async () => {
+      mockServer.in().fetchSockets.mockResolvedValueOnce([{ id: 'socket-1' }]);
+
+      await expect(gateway.isUserConnected(MOCK_USER_ID)).resolves.toBe(true);
+      expect(mockServer.in).toHaveBeenCalledWith(`user-${MOCK_USER_ID}`);
     });
 
-    it('should return false for unknown user', () => {
+    it('should return false for unknown user', async () => {
       // Check that an unknown user is not connected
-      expect(gateway.isUserConnected('unknown')).toBe(false);
+      await expect(gateway.isUserConnected('unknown')).resolves.toBe(false);
     });
   });
 });
@@ -21,13 +21,38 @@ import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import {
+  ChatDeleteDto,
+  chatDeleteSchema,
+  ChatEditDto,
+  chatEditSchema,
+  ChatMessageDto,
+  chatMessageSchema,
   JoinRequestDto,
   joinRequestSchema,
+  PresenceUpdateDto,
+  presenceUpdateSchema,
   RequestResponseDto,
   requestResponseSchema,
 } from './dto/websocket.dto';
 import { WsExceptionFilter } from '../common/filters/ws-exception.filter';
 import { LobbyService } from './lobby.service';
+import {
+  JoinRequestApplication,
+  LobbyProfile,
+  PresenceStatus,
+} from './types/lobby.types';
+import {
+  CHAT_FLOOD_MAX_MESSAGES,
+  CHAT_FLOOD_WINDOW_MS,
+  DEFAULT_JOIN_REQUEST_COOLDOWN_HOURS,
+  LOBBY_GATEWAY_OPTIONS,
+} from './lobby.constants';
+import { LobbyChatService } from './lobby-chat.service';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { LobbyEvent, RsvpStatus, UserRole } from '@prisma/client';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { UsersService } from '../users/users.service';
+import { JwtPayload } from '../auth/jwt.strategy';
 
 /**
  * Extends the Socket interface to include user information.
@@ -35,9 +60,11 @@ import { LobbyService } from './lobby.service';
 interface AuthenticatedSocket extends Socket {
   user: {
     id: string;
+    steamId: string;
     lobbyId?: string | null;
     memberLobbyId?: string | null;
     username: string;
+    sessionExpiresAt: number | null; // Token expiry in milliseconds, if any.
   };
 }
 
@@ -46,15 +73,7 @@ interface AuthenticatedSocket extends Socket {
  * Handles connection, disconnection, and message events such as join requests,
  * request responses, and notifications.
  */
-@WebSocketGateway({
-  namespace: 'lobby', // Namespace for the WebSocket communication.
-  cors: {
-    origin:
-      process.env.NODE_ENV === 'production' ? [process.env.FRONTEND_URL] : '*', // Configuring CORS based on environment.
-    credentials: true,
-  },
-  transports: ['websocket'], // Only WebSocket transport is allowed.
-})
+@WebSocketGateway(LOBBY_GATEWAY_OPTIONS)
 @UseFilters(WsExceptionFilter) // Use the custom exception filter for handling WebSocket errors.
 export class LobbyGateway
   implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
@@ -64,13 +83,21 @@ export class LobbyGateway
 
   private readonly logger = new Logger(LobbyGateway.name); // Logger for this gateway.
 
-  private readonly connectedUsers = new Map<string, Socket>(); // Map to store connected users by their ID.
+  private readonly chatTimestamps = new Map<string, number[]>(); // Recent chat send times by socket ID, for flood limiting.
+
+  private readonly authenticatedSockets = new Map<
+    string,
+    AuthenticatedSocket
+  >(); // Sockets held by this instance, by socket ID, for session checks.
 
   constructor(
     private readonly jwtService: JwtService, // JWT service for handling token validation.
     private readonly configService: ConfigService, // Configuration service for environment variables.
     @Inject(forwardRef(() => LobbyService)) // Inject LobbyService with forward reference.
     private readonly lobbyService: LobbyService,
+    private readonly lobbyChatService: LobbyChatService, // Chat persistence and permissions.
+    private readonly lobbyPresenceService: LobbyPresenceService, // Redis-backed presence shared across instances.
+    private readonly usersService: UsersService, // Resolves the session's user, as the HTTP JWT strategy does.
   ) {}
 
   /**
@@ -86,37 +113,53 @@ export class LobbyGateway
   }
 
   /**
-   * Handles user connection and authenticates using the JWT token.
-   * Assigns the connected user to appropriate rooms based on their roles.
+   * Handles user connection and authenticates using the session JWT, the same
+   * token the HTTP API reads from the `jwt` cookie.
+   * The user is resolved by Steam ID like `JwtStrategy.validate`, and joins the
+   * rooms of the lobbies they currently belong to in the database.
    * @param socket - The WebSocket connection instance.
    * @throws {WsException} If the user fails authentication or the token is missing.
    */
   async handleConnection(socket: AuthenticatedSocket): Promise<void> {
     try {
       const token = this.extractToken(socket); // Extract token from socket.
-      const user = await this.jwtService.verifyAsync<{
-        id: string;
-        username: string;
-        lobbyId?: string | null;
-        memberLobbyId?: string | null;
-      }>(token, {
+      const payload = await this.jwtService.verifyAsync<JwtPayload>(token, {
         secret: this.configService.get<string>('JWT_SECRET'), // Verify the JWT token.
       });
 
+      const user = await this.usersService.findBySteamId(payload.steamId);
+      if (!user) throw new WsException('User not found');
+
       // Assign user data to the socket instance.
       socket.user = {
         id: user.id,
+        steamId: user.steamId,
         username: user.username || 'Anonymous',
-        lobbyId: user.lobbyId ?? null,
-        memberLobbyId: user.memberLobbyId ?? null,
+        lobbyId: user.lobby?.id ?? null,
+        memberLobbyId: user.lobbyId ?? null,
+        sessionExpiresAt: payload.exp ? payload.exp * 1000 : null,
       };
-
-      this.connectedUsers.set(user.id, socket); // Store the socket by user ID.
+      this.authenticatedSockets.set(socket.id, socket);
 
       // Join rooms based on the user's lobby ID and member lobby ID.
       await socket.join(`user-${user.id}`);
-      if (user.lobbyId) await socket.join(`lobby-${user.lobbyId}`);
-      if (user.memberLobbyId) await socket.join(`lobby-${user.memberLobbyId}`);
+      if (socket.user.lobbyId)
+        await socket.join(`lobby-${socket.user.lobbyId}`);
+      if (socket.user.memberLobbyId) {
+        await socket.join(`lobby-${socket.user.memberLobbyId}`);
+      }
+
+      const presenceLobbyId = this.getPresenceLobbyId(socket);
+      if (presenceLobbyId) {
+        await this.trackPresence(async () => {
+          const presence = await this.lobbyPresenceService.connect(
+            presenceLobbyId,
+            user.id,
+            socket.id,
+          );
+          this.notifyPresenceChanged(presenceLobbyId, user.id, presence.status);
+        });
+      }
 
       this.logger.log(`Client connected: ${user.id}`);
     } catch (error) {
@@ -133,17 +176,106 @@ export class LobbyGateway
   }
 
   /**
-   * Handles user disconnection and removes them from the connected users map.
+   * Handles user disconnection and releases the user's presence.
    * @param socket - The WebSocket connection instance.
    */
-  handleDisconnect(socket: AuthenticatedSocket): void {
+  async handleDisconnect(socket: AuthenticatedSocket): Promise<void> {
+    this.chatTimestamps.delete(socket.id);
+    this.authenticatedSockets.delete(socket.id);
     const userId = socket.user?.id;
     if (userId) {
-      this.connectedUsers.delete(userId); // Remove user from connected users map.
       this.logger.log(`Client disconnected: ${userId}`);
+
+      await this.trackPresence(async () => {
+        // The lobby may have changed since the socket connected
+        await this.refreshLobbies(socket);
+        const presenceLobbyId = this.getPresenceLobbyId(socket);
+        if (presenceLobbyId) {
+          const isOffline = await this.lobbyPresenceService.disconnect(
+            presenceLobbyId,
+            userId,
+            socket.id,
+          );
+          if (isOffline) {
+            this.notifyPresenceChanged(presenceLobbyId, userId, 'offline');
+          }
+        }
+      });
+    }
+  }
+
+  /**
+   * Updates the sender's presence status (online, away, in-game) and notifies their lobby.
+   * @param socket - The WebSocket connection instance.
+   * @param data - The new presence status.
+   * @throws {WsException} If the user is not in a lobby.
+   */
+  @SubscribeMessage('presence-update')
+  async handlePresenceUpdate(
+    @ConnectedSocket() socket: AuthenticatedSocket,
+    @MessageBody(new ZodValidationPipe(presenceUpdateSchema))
+    data: PresenceUpdateDto,
+  ): Promise<void> {
+    await this.refreshLobbies(socket);
+    const lobbyId = this.getPresenceLobbyId(socket);
+    if (!lobbyId) {
+      throw new WsException('Only lobby members have a presence status');
+    }
+
+    await this.lobbyPresenceService.setStatus(
+      lobbyId,
+      socket.user.id,
+      data.status,
+    );
+    this.notifyPresenceChanged(lobbyId, socket.user.id, data.status);
+  }
+
+  /**
+   * Resolves the lobby whose presence a socket's user counts towards.
+   * Reflects the lobbies captured at connect time unless refreshed.
+   * @param socket - The WebSocket connection instance.
+   * @returns The lobby ID, or null if the user is not in a lobby.
+   */
+  private getPresenceLobbyId(socket: AuthenticatedSocket): string | null {
+    return socket.user?.memberLobbyId ?? socket.user?.lobbyId ?? null;
+  }
+
+  /**
+   * Runs a presence update, logging failures so that an unavailable Redis
+   * never blocks connecting or disconnecting.
+   * @param update - The presence update to run.
+   */
+  private async trackPresence(update: () => Promise<void>): Promise<void> {
+    try {
+      await update();
+    } catch (error) {
+      this.logger.warn(
+        `Presence update failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
   }
 
+  /**
+   * Reloads the lobbies a socket's user owns and belongs to.
+   * Membership changes move sockets between rooms on every instance, but the
+   * user captured at connect time is only brought up to date here, so checks
+   * that depend on ownership call this first.
+   * @param socket - The WebSocket connection instance.
+   * @returns The socket's refreshed user.
+   * @throws {WsException} If the user no longer exists.
+   */
+  private async refreshLobbies(
+    socket: AuthenticatedSocket,
+  ): Promise<AuthenticatedSocket['user']> {
+    const user = await this.usersService.findBySteamId(socket.user.steamId);
+    if (!user) throw new WsException('User not found');
+
+    socket.user.lobbyId = user.lobby?.id ?? null;
+    socket.user.memberLobbyId = user.lobbyId ?? null;
+
+    return socket.user;
+  }
+
   /**
    * Handles join requests from users and notifies the lobby owner.
    * @param socket - The WebSocket connection instance.
@@ -152,14 +284,21 @@ export class LobbyGateway
    */
   @SubscribeMessage('join-request')
   @UsePipes(new ZodValidationPipe(joinRequestSchema)) // Validate incoming data with Zod.
-  handleJoinRequest(
+  async handleJoinRequest(
     @ConnectedSocket() socket: AuthenticatedSocket,
     @MessageBody() data: JoinRequestDto,
-  ): void {
-    if (!socket.user.lobbyId) {
+  ): Promise<void> {
+    const { lobbyId } = await this.refreshLobbies(socket);
+    if (!lobbyId) {
       throw new WsException('Only lobby owners can receive join requests');
     }
-    this.notifyNewRequest(data.lobbyId, socket.user.id, socket.user.username); // Notify the lobby owner.
+    this.notifyNewRequest(
+      lobbyId,
+      socket.user.id,
+      socket.user.id,
+      socket.user.username,
+      { message: data.message ?? null, answers: [] },
+    ); // Notify the lobby owner.
   }
 
   /**
@@ -170,11 +309,12 @@ export class LobbyGateway
    */
   @SubscribeMessage('request-response')
   @UsePipes(new ZodValidationPipe(requestResponseSchema)) // Validate incoming data with Zod.
-  handleRequestResponse(
+  async handleRequestResponse(
     @ConnectedSocket() socket: AuthenticatedSocket,
     @MessageBody() data: RequestResponseDto,
-  ): void {
-    if (socket.user.lobbyId !== data.lobbyId) {
+  ): Promise<void> {
+    const { lobbyId } = await this.refreshLobbies(socket);
+    if (lobbyId !== data.lobbyId) {
       throw new WsException('Only lobby owner can respond to requests');
     }
     this.notifyUserRequestUpdate(data.userId, data.lobbyId, data.status); // Notify the user about the request response.
@@ -188,23 +328,213 @@ export class LobbyGateway
    */
   @SubscribeMessage('reject-request')
   @UsePipes(new ZodValidationPipe(requestResponseSchema)) // Validate incoming data with Zod.
-  handleRejectRequest(
+  async handleRejectRequest(
     @ConnectedSocket() socket: AuthenticatedSocket,
     @MessageBody() data: RequestResponseDto,
-  ): void {
-    if (socket.user.lobbyId !== data.lobbyId) {
+  ): Promise<void> {
+    const { lobbyId } = await this.refreshLobbies(socket);
+    if (lobbyId !== data.lobbyId) {
       throw new WsException('Only lobby owner can respond to requests');
     }
     this.notifyUserRequestUpdate(data.userId, data.lobbyId, 'rejected'); // Notify the user about the rejection.
   }
 
+  /**
+   * Stores a chat message from a lobby member and delivers it to the lobby.
+   * @param socket - The WebSocket connection instance.
+   * @param data - The target lobby and message text.
+   * @throws {WsException} If the sender is flooding or not a lobby member.
+   */
+  @SubscribeMessage('chat-message')
+  async handleChatMessage(
+    @ConnectedSocket() socket: AuthenticatedSocket,
+    @MessageBody(new ZodValidationPipe(chatMessageSchema)) data: ChatMessageDto,
+  ): Promise<void> {
+    this.assertNotFlooding(socket);
+
+    const message = await this.runChatAction(() =>
+      this.lobbyChatService.sendMessage(
+        data.lobbyId,
+        socket.user.id,
+        data.content,
+      ),
+    );
+
+    this.server.to(`lobby-${data.lobbyId}`).emit('chat-message', message);
+  }
+
+  /**
+   * Edits a chat message on behalf of its author and notifies the lobby.
+   * @param socket - The WebSocket connection instance.
+   * @param data - The message ID and new text.
+   * @throws {WsException} If the sender is flooding or not the author.
+   */
+  @SubscribeMessage('chat-edit')
+  async handleChatEdit(
+    @ConnectedSocket() socket: AuthenticatedSocket,
+    @MessageBody(new ZodValidationPipe(chatEditSchema)) data: ChatEditDto,
+  ): Promise<void> {
+    this.assertNotFlooding(socket);
+
+    const message = await this.runChatAction(() =>
+      this.lobbyChatService.editMessage(
+        data.messageId,
+        socket.user.id,
+        data.content,
+      ),
+    );
+
+    this.server
+      .to(`lobby-${message.lobbyId}`)
+      .emit('chat-message-edited', message);
+  }
+
+  /**
+   * Deletes a chat message (author, owner or admins) and notifies the lobby.
+   * @param socket - The WebSocket connection instance.
+   * @param data - The message ID.
+   * @throws {WsException} If the sender may not delete the message.
+   */
+  @SubscribeMessage('chat-delete')
+  async handleChatDelete(
+    @ConnectedSocket() socket: AuthenticatedSocket,
+    @MessageBody(new ZodValidationPipe(chatDeleteSchema)) data: ChatDeleteDto,
+  ): Promise<void> {
+    const message = await this.runChatAction(() =>
+      this.lobbyChatService.deleteMessage(data.messageId, socket.user.id),
+    );
+
+    this.server.to(`lobby-${message.lobbyId}`).emit('chat-message-deleted', {
+      id: message.id,
+      deletedBy: socket.user.id,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Enforces the per-socket chat flood limit using a sliding window.
+   * @param socket - The WebSocket connection instance.
+   * @throws {WsException} If the socket exceeded the limit.
+   */
+  private assertNotFlooding(socket: AuthenticatedSocket): void {
+    const now = Date.now();
+    const recent = (this.chatTimestamps.get(socket.id) ?? []).filter(
+      (sentAt) => now - sentAt < CHAT_FLOOD_WINDOW_MS,
+    );
+
+    if (recent.length >= CHAT_FLOOD_MAX_MESSAGES) {
+      this.chatTimestamps.set(socket.id, recent);
+      throw new WsException('You are sending messages too quickly');
+    }
+
+    recent.push(now);
+    this.chatTimestamps.set(socket.id, recent);
+  }
+
+  /**
+   * Runs a chat service call, converting its HTTP errors to WebSocket errors.
+   * @param action - The chat service call.
+   * @returns The call's result.
+   * @throws {WsException} If the call fails.
+   */
+  private async runChatAction<T>(action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      throw new WsException(
+        error instanceof Error ? error.message : 'Chat action failed',
+      );
+    }
+  }
+
+  /**
+   * Re-checks the sessions of sockets held by this instance.
+   * Sockets outlive the token they connected with, so users whose token has
+   * expired, or whose account no longer resolves, are disconnected.
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'verify-socket-sessions' })
+  async verifySessions(): Promise<void> {
+    const now = Date.now();
+    const socketsBySteamId = new Map<string, AuthenticatedSocket[]>();
+
+    for (const socket of this.authenticatedSockets.values()) {
+      const { steamId, sessionExpiresAt } = socket.user;
+      if (sessionExpiresAt !== null && sessionExpiresAt <= now) {
+        this.endSession(socket, 'expired');
+        continue;
+      }
+      socketsBySteamId.set(steamId, [
+        ...(socketsBySteamId.get(steamId) ?? []),
+        socket,
+      ]);
+    }
+
+    for (const [steamId, sockets] of socketsBySteamId) {
+      try {
+        const user = await this.usersService.findBySteamId(steamId);
+        if (!user)
+          sockets.forEach((socket) => this.endSession(socket, 'revoked'));
+      } catch (error) {
+        // Keep sockets open when the check itself fails; retry on the next run.
+        this.logger.error(
+          `Failed to verify session for ${steamId}`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Renews the presence of sockets held by this instance. Sockets of an
+   * instance that stops renewing them expire, so its users go offline.
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'renew-socket-presence' })
+  async renewPresence(): Promise<void> {
+    const socketIdsByUser = new Map<string, string[]>();
+
+    for (const socket of this.authenticatedSockets.values()) {
+      socketIdsByUser.set(socket.user.id, [
+        ...(socketIdsByUser.get(socket.user.id) ?? []),
+        socket.id,
+      ]);
+    }
+
+    for (const [userId, socketIds] of socketIdsByUser) {
+      await this.trackPresence(() =>
+        this.lobbyPresenceService.heartbeat(userId, socketIds),
+      );
+    }
+  }
+
+  /**
+   * Tells the client why its session ended, then disconnects it.
+   * @param socket - The WebSocket connection instance.
+   * @param reason - Whether the token expired or the session was revoked.
+   */
+  private endSession(
+    socket: AuthenticatedSocket,
+    reason: 'expired' | 'revoked',
+  ): void {
+    this.logger.log(`Ending ${reason} session of ${socket.user.id}`);
+    socket.emit('session-ended', {
+      reason,
+      timestamp: new Date().toISOString(),
+    });
+    socket.disconnect(true);
+  }
+
   /**
    * Extracts the JWT token from the WebSocket connection.
+   * Prefers the httpOnly `jwt` cookie set at login, which browsers send with
+   * the handshake, then falls back to the handshake auth or Authorization header.
    * @param socket - The WebSocket connection instance.
    * @returns The JWT token as a string.
    * @throws {WsException} If the token is missing.
    */
   private extractToken(socket: AuthenticatedSocket): string {
+    const cookieToken = this.readCookie(socket.handshake.headers.cookie, 'jwt');
+    if (cookieToken) return cookieToken;
+
     const { token: authToken } = socket.handshake.auth; // Extract token from handshake auth.
     if (typeof authToken === 'string') return authToken;
 
@@ -218,15 +548,66 @@ export class LobbyGateway
   }
 
   /**
-   * Notifies the lobby about a new join request.
+   * Reads a single value from a raw `Cookie` header.
+   * @param header - The Cookie header sent with the handshake.
+   * @param name - The cookie name.
+   * @returns The decoded cookie value, or null if absent.
+   */
+  private readCookie(header: string | undefined, name: string): string | null {
+    for (const pair of header?.split(';') ?? []) {
+      const separator = pair.indexOf('=');
+      if (separator === -1 || pair.slice(0, separator).trim() !== name)
+        continue;
+      const value = pair.slice(separator + 1).trim();
+      try {
+        return decodeURIComponent(value) || null;
+      } catch {
+        return value || null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Notifies the lobby owner about a new join request. Only the owner gets
+   * the event, as it carries the applicant's message and answers.
    * @param lobbyId - The lobby ID.
+   * @param ownerId - The user ID of the lobby owner.
    * @param userId - The user ID of the requester.
    * @param username - The username of the requester.
+   * @param application - The requester's message and application answers.
    */
-  notifyNewRequest(lobbyId: string, userId: string, username: string): void {
-    this.server.to(`lobby-${lobbyId}`).emit('join-request', {
+  notifyNewRequest(
+    lobbyId: string,
+    ownerId: string,
+    userId: string,
+    username: string,
+    application: JoinRequestApplication,
+  ): void {
+    this.server.to(`user-${ownerId}`).emit('join-request', {
+      lobbyId,
       userId,
       username,
+      message: application.message,
+      answers: application.answers,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that a member's presence changed.
+   * @param lobbyId - The lobby ID.
+   * @param userId - The member's user ID.
+   * @param status - The member's new presence status.
+   */
+  notifyPresenceChanged(
+    lobbyId: string,
+    userId: string,
+    status: PresenceStatus | 'offline',
+  ): void {
+    this.server.to(`lobby-${lobbyId}`).emit('presence-changed', {
+      userId,
+      status,
       timestamp: new Date().toISOString(),
     });
   }
@@ -244,21 +625,75 @@ export class LobbyGateway
   }
 
   /**
-   * Notifies a user about the status of their join request (accepted, rejected, or kicked).
+   * Notifies the lobby owner that a pending join request has expired.
+   * @param lobbyId - The lobby ID.
+   * @param ownerId - The user ID of the lobby owner.
+   * @param userId - The user ID of the requester.
+   */
+  notifyRequestExpired(lobbyId: string, ownerId: string, userId: string): void {
+    this.server.to(`user-${ownerId}`).emit('request-expired', {
+      lobbyId,
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies a waitlisted user of their current place in line.
+   * @param userId - The user ID of the recipient.
+   * @param lobbyId - The lobby ID.
+   * @param position - The user's 1-based position on the waitlist.
+   */
+  notifyWaitlistPosition(
+    userId: string,
+    lobbyId: string,
+    position: number,
+  ): void {
+    this.server.to(`user-${userId}`).emit('waitlist-position', {
+      lobbyId,
+      position,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Offers a free lobby slot to a waitlisted user.
+   * @param userId - The user ID of the recipient.
+   * @param lobbyId - The lobby ID.
+   * @param expiresAt - When the offer goes to the next user in line.
+   */
+  notifyWaitlistOffer(userId: string, lobbyId: string, expiresAt: Date): void {
+    this.server.to(`user-${userId}`).emit('waitlist-offer', {
+      lobbyId,
+      expiresAt: expiresAt.toISOString(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies a user about the status of their join request (accepted, waitlisted, rejected, kicked, expired, or banned).
    * @param userId - The user ID of the recipient.
    * @param lobbyId - The lobby ID.
-   * @param status - The status of the request (accepted, rejected, kicked).
+   * @param status - The status of the request (accepted, waitlisted, rejected, kicked, expired, banned).
    */
   notifyUserRequestUpdate(
     userId: string,
     lobbyId: string,
-    status: 'accepted' | 'rejected' | 'kicked',
+    status:
+      | 'accepted'
+      | 'waitlisted'
+      | 'rejected'
+      | 'kicked'
+      | 'expired'
+      | 'banned',
   ): void {
     this.server.to(`user-${userId}`).emit('request-updated', {
       lobbyId,
       status,
       timestamp: new Date().toISOString(),
-      ...(status === 'rejected' && { cooldown: '6h' }), // Add a cooldown for rejected requests.
+      ...(status === 'rejected' && {
+        cooldown: `${this.configService.get<number>('JOIN_REQUEST_COOLDOWN_HOURS') ?? DEFAULT_JOIN_REQUEST_COOLDOWN_HOURS}h`,
+      }), // Advertise the re-request cooldown enforced by LobbyService.
     });
   }
 
@@ -306,11 +741,207 @@ export class LobbyGateway
   }
 
   /**
-   * Checks if a user is currently connected to the WebSocket server.
+   * Notifies the lobby about changes to its profile (name, description, image, capacity).
+   * @param lobbyId - The lobby ID.
+   * @param profile - The updated lobby profile.
+   */
+  notifyLobbyUpdated(lobbyId: string, profile: LobbyProfile): void {
+    this.server.to(`lobby-${lobbyId}`).emit('lobby-updated', {
+      ...profile,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies all lobby members that the lobby has been disbanded.
+   * @param lobbyId - The lobby ID.
+   */
+  notifyLobbyDisbanded(lobbyId: string): void {
+    this.server.to(`lobby-${lobbyId}`).emit('lobby-disbanded', {
+      lobbyId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that ownership has passed to another member.
+   * @param lobbyId - The lobby ID.
+   * @param previousOwnerId - The user ID of the previous owner.
+   * @param newOwnerId - The user ID of the new owner.
+   * @param newOwnerUsername - The username of the new owner.
+   */
+  notifyOwnershipTransferred(
+    lobbyId: string,
+    previousOwnerId: string,
+    newOwnerId: string,
+    newOwnerUsername: string,
+  ): void {
+    this.server.to(`lobby-${lobbyId}`).emit('ownership-transferred', {
+      previousOwnerId,
+      newOwnerId,
+      newOwnerUsername,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that a member's role has changed.
+   * @param lobbyId - The lobby ID.
+   * @param userId - The user ID of the member.
+   * @param username - The username of the member.
+   * @param role - The member's new role.
+   */
+  notifyMemberRoleChanged(
+    lobbyId: string,
+    userId: string,
+    username: string,
+    role: UserRole,
+  ): void {
+    this.server.to(`lobby-${lobbyId}`).emit('member-role-changed', {
+      userId,
+      username,
+      role,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that a new event has been scheduled.
+   * @param lobbyId - The lobby ID.
+   * @param event - The scheduled event.
+   */
+  notifyEventScheduled(lobbyId: string, event: LobbyEvent): void {
+    this.server.to(`lobby-${lobbyId}`).emit('event-scheduled', {
+      event,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that an event's details have changed.
+   * @param lobbyId - The lobby ID.
+   * @param event - The updated event.
+   */
+  notifyEventUpdated(lobbyId: string, event: LobbyEvent): void {
+    this.server.to(`lobby-${lobbyId}`).emit('event-updated', {
+      event,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that an event has been cancelled.
+   * @param lobbyId - The lobby ID.
+   * @param eventId - The cancelled event ID.
+   */
+  notifyEventCancelled(lobbyId: string, eventId: string): void {
+    this.server.to(`lobby-${lobbyId}`).emit('event-cancelled', {
+      eventId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notifies the lobby that a member has answered an event.
+   * @param lobbyId - The lobby ID.
+   * @param eventId - The event ID.
+   * @param userId - The user ID of the member.
+   * @param username - The username of the member.
+   * @param status - The member's answer (going, maybe, declined).
+   */
+  notifyEventRsvp(
+    lobbyId: string,
+    eventId: string,
+    userId: string,
+    username: string,
+    status: RsvpStatus,
+  ): void {
+    this.server.to(`lobby-${lobbyId}`).emit('event-rsvp', {
+      eventId,
+      userId,
+      username,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Reminds the lobby that an event is about to start.
+   * @param lobbyId - The lobby ID.
+   * @param event - The upcoming event.
+   */
+  notifyEventReminder(lobbyId: string, event: LobbyEvent): void {
+    this.server.to(`lobby-${lobbyId}`).emit('event-reminder', {
+      eventId: event.id,
+      title: event.title,
+      startsAt: event.startsAt.toISOString(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Adds every live socket of a user to a lobby room, on any instance, and
+   * shows the user as present in the lobby if they are connected.
+   * @param userId - The user ID.
+   * @param lobbyId - The lobby the user joined.
+   */
+  async joinLobbyRoom(userId: string, lobbyId: string): Promise<void> {
+    this.server.in(`user-${userId}`).socketsJoin(`lobby-${lobbyId}`);
+
+    await this.trackPresence(async () => {
+      const sockets = await this.server.in(`user-${userId}`).fetchSockets();
+      let presence: { status: PresenceStatus } | null = null;
+
+      for (const socket of sockets) {
+        presence = await this.lobbyPresenceService.connect(
+          lobbyId,
+          userId,
+          socket.id,
+        );
+      }
+      if (presence) {
+        this.notifyPresenceChanged(lobbyId, userId, presence.status);
+      }
+    });
+  }
+
+  /**
+   * Removes every live socket of a user from a lobby room, on any instance,
+   * and takes the user out of the lobby's presence.
+   * @param userId - The user ID.
+   * @param lobbyId - The lobby the user left or was removed from.
+   */
+  async leaveLobbyRoom(userId: string, lobbyId: string): Promise<void> {
+    this.server.in(`user-${userId}`).socketsLeave(`lobby-${lobbyId}`);
+
+    await this.trackPresence(async () => {
+      if (await this.lobbyPresenceService.removeMember(lobbyId, userId)) {
+        this.notifyPresenceChanged(lobbyId, userId, 'offline');
+      }
+    });
+  }
+
+  /**
+   * Empties a lobby room and its presence once the lobby no longer exists.
+   * @param lobbyId - The disbanded lobby ID.
+   */
+  async closeLobbyRoom(lobbyId: string): Promise<void> {
+    this.server.in(`lobby-${lobbyId}`).socketsLeave(`lobby-${lobbyId}`);
+
+    await this.trackPresence(() =>
+      this.lobbyPresenceService.clearLobby(lobbyId),
+    );
+  }
+
+  /**
+   * Checks if a user is connected to any instance of the WebSocket server.
+   * Every authenticated socket joins its `user-<id>` room, so the lookup goes
+   * through the adapter and covers sockets held by other instances.
    * @param userId - The user ID to check.
-   * @returns A boolean indicating whether the user is connected.
+   * @returns A promise resolving to whether the user is connected.
    */
-  isUserConnected(userId: string): boolean {
-    return this.connectedUsers.has(userId); // Check if the user is in the connected users map.
+  async isUserConnected(userId: string): Promise<boolean> {
+    const sockets = await this.server.in(`user-${userId}`).fetchSockets();
+    return sockets.length > 0;
   }
 }
@@ -2,18 +2,34 @@ import { Module, forwardRef } from '@nestjs/common';
 import { LobbyController } from './lobby.controller';
 import { LobbyService } from './lobby.service';
 import { LobbyGateway } from './lobby.gateway';
+import { LobbyChatService } from './lobby-chat.service';
+import { LobbyPresenceService } from './lobby-presence.service';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+import { LobbyEventsService } from './lobby-events.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { UsersService } from '../users/users.service';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
+import { RedisModule } from '../redis/redis.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [forwardRef(() => AuthModule)],
+  imports: [
+    forwardRef(() => AuthModule),
+    AuditModule,
+    RedisModule,
+    NotificationsModule,
+  ],
   controllers: [LobbyController],
   providers: [
     LobbyService,
     LobbyGateway,
+    LobbyChatService,
+    LobbyPresenceService,
+    LobbyWaitlistService,
+    LobbyEventsService,
     PrismaService,
     UsersService,
     JwtService,
@@ -14,13 +14,27 @@ import {
 import { UserWithLobbyRelations } from 'src/users/types/user.types';
 import { CreateLobbyDto } from './dto/create-lobby.dto';
 import {
+  LobbyAuditAction,
+  LobbyJoinPolicy,
   LobbyVisibility,
+  NotificationType,
   UserRole,
   RequestStatus,
   Prisma,
 } from '@prisma/client';
 import { UsersService } from 'src/users/users.service';
+import { ConfigService } from '@nestjs/config';
+import { AuditService } from 'src/audit/audit.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
 import { LobbyGateway } from './lobby.gateway';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+import { LobbySort } from './dto/list-lobbies-query.dto';
+import { UpdateLobbyDto } from './dto/update-lobby.dto';
+import * as bcrypt from 'bcrypt';
+import RedisMock from 'ioredis-mock';
+import { RedisProvider } from 'src/redis/redis.provider';
+import { DisbandGamesAction } from './dto/disband-lobby.dto';
+import { MAX_JOIN_PASSWORD_ATTEMPTS } from './lobby.constants';
 
 //#region Mock Data and Utilities
 
@@ -34,6 +48,7 @@ const mockUser: UserWithLobbyRelations = {
   memberLobby: null,
   lobby: null,
   lobbyId: null,
+  lobbyJoinedAt: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -58,6 +73,10 @@ function createMockLobby(
     visibility: LobbyVisibility.PUBLIC,
     description: 'Test description',
     capacity: 10,
+    applicationQuestions: [],
+    joinPolicy: LobbyJoinPolicy.APPROVAL,
+    joinPasswordHash: null,
+    waitlistAutoAdmit: false,
     ownerId: 'user1',
     owner: mockUser,
     members: overrides?.members || [],
@@ -80,7 +99,11 @@ const mockJoinRequest: Prisma.LobbyJoinRequestGetPayload<{
   userId: 'requester1',
   lobbyId: 'lobby1',
   status: RequestStatus.PENDING,
+  message: null,
+  answers: [],
   createdAt: new Date(),
+  decidedAt: null,
+  decidedById: null,
   user: {
     id: 'requester1',
     username: 'Requester',
@@ -88,6 +111,7 @@ const mockJoinRequest: Prisma.LobbyJoinRequestGetPayload<{
     steamId: 'steam_requester',
     role: UserRole.MEMBER,
     lobbyId: null,
+    lobbyJoinedAt: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   },
@@ -112,11 +136,15 @@ function createMockPrismaClient(): jest.Mocked<PrismaService> {
     $executeRaw: jest.fn(),
     user: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       create: jest.fn(),
+      count: jest.fn(),
     },
     lobby: {
       findUnique: jest.fn(),
+      findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -126,8 +154,28 @@ function createMockPrismaClient(): jest.Mocked<PrismaService> {
       findUnique: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    lobbyInvite: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    lobbyBan: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
       delete: jest.fn(),
     },
+    lobbyWaitlistEntry: {
+      findMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
   } as unknown as jest.Mocked<PrismaService>;
 }
 //#endregion
@@ -136,13 +184,26 @@ describe('LobbyService', () => {
   let service: LobbyService;
   let prismaService: jest.Mocked<PrismaService>;
   let lobbyGateway: jest.Mocked<LobbyGateway>;
+  let auditService: jest.Mocked<AuditService>;
+  let notificationsService: jest.Mocked<NotificationsService>;
+  let waitlistService: jest.Mocked<LobbyWaitlistService>;
+  let redis: InstanceType<typeof RedisMock>;
 
   beforeEach(async () => {
     const mockPrisma = createMockPrismaClient();
+    redis = new RedisMock();
 
     // Simulate Prisma transaction behavior
     (mockPrisma.$transaction as jest.Mock).mockImplementation(
-      async (operations: Prisma.PrismaPromise<any>[]) => {
+      async (
+        operations:
+          | Prisma.PrismaPromise<any>[]
+          | ((tx: PrismaService) => Promise<unknown>),
+      ) => {
+        if (typeof operations === 'function') {
+          return operations(mockPrisma);
+        }
+
         const results: any[] = [];
         for (const operation of operations) {
           if ((operation as any)['where']?.id === 'requester1') {
@@ -176,6 +237,9 @@ describe('LobbyService', () => {
 
     // Fallback mocks
     (mockPrisma.user.update as jest.Mock).mockResolvedValue(mockUser);
+    (mockPrisma.lobbyJoinRequest.update as jest.Mock).mockResolvedValue(
+      mockJoinRequest,
+    );
     (mockPrisma.lobby.create as jest.Mock).mockResolvedValue(mockLobby);
     (mockPrisma.lobby.findUnique as jest.Mock).mockImplementation(
       (args: any) => {
@@ -198,14 +262,12 @@ describe('LobbyService', () => {
       },
     );
 
-    (mockPrisma.lobbyJoinRequest.findFirst as jest.Mock).mockResolvedValue(
-      null,
-    );
-    (mockPrisma.lobbyJoinRequest.findUnique as jest.Mock).mockImplementation(
+    (mockPrisma.lobbyJoinRequest.findFirst as jest.Mock).mockImplementation(
       (args: any) => {
         if (
-          args.where.userId_lobbyId?.userId === 'requester1' &&
-          args.where.userId_lobbyId?.lobbyId === 'lobby1'
+          args.where.userId === 'requester1' &&
+          args.where.lobbyId === 'lobby1' &&
+          args.where.status === RequestStatus.PENDING
         ) {
           return Promise.resolve(mockJoinRequest);
         }
@@ -238,16 +300,51 @@ describe('LobbyService', () => {
             getUserById: jest.fn().mockResolvedValue(mockUser),
           },
         },
+        {
+          provide: AuditService,
+          useValue: { record: jest.fn(), getLobbyAuditLog: jest.fn() },
+        },
+        {
+          provide: NotificationsService,
+          useValue: { notify: jest.fn() },
+        },
+        {
+          provide: LobbyWaitlistService,
+          useValue: {
+            hasOpenSlot: jest.fn().mockResolvedValue(true),
+            countReservedSlots: jest.fn().mockResolvedValue(0),
+            claimSeat: jest.fn(),
+            assertNotWaiting: jest.fn(),
+            enqueue: jest.fn().mockResolvedValue(1),
+            fillOpenSlots: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        {
+          provide: RedisProvider,
+          useValue: { getClient: () => redis },
+        },
         {
           provide: LobbyGateway,
           useValue: {
-            isUserConnected: jest.fn().mockReturnValue(true),
+            isUserConnected: jest.fn().mockResolvedValue(true),
             notifyNewMember: jest.fn(),
             notifyNewRequest: jest.fn(),
             notifyRequestCancelled: jest.fn(),
             notifyUserRequestUpdate: jest.fn(),
             notifyMemberLeft: jest.fn(),
             notifyVisibilityChange: jest.fn(),
+            notifyLobbyUpdated: jest.fn(),
+            notifyLobbyDisbanded: jest.fn(),
+            notifyOwnershipTransferred: jest.fn(),
+            notifyMemberRoleChanged: jest.fn(),
+            notifyRequestExpired: jest.fn(),
+            joinLobbyRoom: jest.fn(),
+            leaveLobbyRoom: jest.fn(),
+            closeLobbyRoom: jest.fn(),
           },
         },
       ],
@@ -256,10 +353,14 @@ describe('LobbyService', () => {
     service = module.get<LobbyService>(LobbyService);
     prismaService = module.get(PrismaService);
     lobbyGateway = module.get(LobbyGateway);
+    auditService = module.get(AuditService);
+    notificationsService = module.get(NotificationsService);
+    waitlistService = module.get(LobbyWaitlistService);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     jest.clearAllMocks();
+    await redis.flushall();
   });
 
   //#region createJoinRequest
@@ -267,12 +368,9 @@ describe('LobbyService', () => {
     it('should create join request successfully', async () => {
       const requester = { ...mockUser, id: 'requester1' };
 
-      (
-        prismaService.lobbyJoinRequest.findFirst as jest.Mock
-      ).mockResolvedValueOnce(null);
-      (
-        prismaService.lobbyJoinRequest.findUnique as jest.Mock
-      ).mockResolvedValueOnce(null);
+      (prismaService.lobbyJoinRequest.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
 
       const result = await service.createJoinRequest('lobby1', requester);
 
@@ -280,26 +378,127 @@ describe('LobbyService', () => {
         message: 'Your join request has been sent and is pending approval.',
       });
       expect(prismaService.lobbyJoinRequest.create).toHaveBeenCalledWith({
-        data: { userId: 'requester1', lobbyId: 'lobby1' },
+        data: {
+          userId: 'requester1',
+          lobbyId: 'lobby1',
+          message: null,
+          answers: [],
+        },
       });
       expect(lobbyGateway.notifyNewRequest).toHaveBeenCalledWith(
         'lobby1',
+        'user1',
         'requester1',
         'TestUser',
+        { message: null, answers: [] },
+      );
+    });
+
+    it('should store the message and answers to the application questions', async () => {
+      const requester = { ...mockUser, id: 'requester2' };
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockLobby({ applicationQuestions: ['Rank?', 'Main role?'] }),
+      );
+
+      await service.createJoinRequest('lobby1', requester, {
+        message: ' Hi there ',
+        answers: ['Gold', ' Support '],
+      });
+
+      const application = {
+        message: 'Hi there',
+        answers: [
+          { question: 'Rank?', answer: 'Gold' },
+          { question: 'Main role?', answer: 'Support' },
+        ],
+      };
+      expect(prismaService.lobbyJoinRequest.create).toHaveBeenCalledWith({
+        data: { userId: 'requester2', lobbyId: 'lobby1', ...application },
+      });
+      expect(lobbyGateway.notifyNewRequest).toHaveBeenCalledWith(
+        'lobby1',
+        'user1',
+        'requester2',
+        'TestUser',
+        application,
+      );
+    });
+
+    it('should throw if an application question is left unanswered', async () => {
+      const requester = { ...mockUser, id: 'requester2' };
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValue(
+        createMockLobby({ applicationQuestions: ['Rank?', 'Main role?'] }),
       );
+
+      await expect(
+        service.createJoinRequest('lobby1', requester, { answers: ['Gold'] }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createJoinRequest('lobby1', requester, {
+          answers: ['Gold', '  '],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
     });
 
     it('should throw if user already has pending request', async () => {
       const requester = { ...mockUser, id: 'requester1' };
-      (
-        prismaService.lobbyJoinRequest.findUnique as jest.Mock
-      ).mockResolvedValueOnce(mockJoinRequest);
 
       await expect(
         service.createJoinRequest('lobby1', requester),
       ).rejects.toThrow(BadRequestException);
     });
 
+    it('should throw if user is already waiting to join a lobby', async () => {
+      const requester = { ...mockUser, id: 'requester2' };
+      waitlistService.assertNotWaiting.mockRejectedValueOnce(
+        new BadRequestException(
+          'You already have a pending request to another lobby',
+        ),
+      );
+
+      await expect(
+        service.createJoinRequest('lobby1', requester),
+      ).rejects.toThrow('You already have a pending request to another lobby');
+      expect(waitlistService.assertNotWaiting).toHaveBeenCalledWith(
+        'requester2',
+      );
+      expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw during the cooldown after a rejection', async () => {
+      const requester = { ...mockUser, id: 'requester2' };
+      (prismaService.lobbyJoinRequest.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          ...mockJoinRequest,
+          userId: 'requester2',
+          status: RequestStatus.REJECTED,
+          decidedAt: new Date(Date.now() - 60 * 60 * 1000),
+        });
+
+      await expect(
+        service.createJoinRequest('lobby1', requester),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow a new request once the cooldown has passed', async () => {
+      const requester = { ...mockUser, id: 'requester2' };
+      (prismaService.lobbyJoinRequest.findFirst as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          ...mockJoinRequest,
+          userId: 'requester2',
+          status: RequestStatus.REJECTED,
+          decidedAt: new Date(Date.now() - 7 * 60 * 60 * 1000),
+        });
+
+      await service.createJoinRequest('lobby1', requester);
+
+      expect(prismaService.lobbyJoinRequest.create).toHaveBeenCalled();
+    });
+
     it('should throw if user is already in a lobby', async () => {
       const requester = {
         ...mockUser,
@@ -310,6 +509,291 @@ describe('LobbyService', () => {
         service.createJoinRequest('lobby1', requester),
       ).rejects.toThrow(BadRequestException);
     });
+
+    describe('join policies', () => {
+      const requester = { ...mockUser, id: 'requester2' };
+
+      beforeEach(() => {
+        (
+          prismaService.lobbyJoinRequest.findMany as jest.Mock
+        ).mockResolvedValue([]);
+        (prismaService.user.updateMany as jest.Mock).mockResolvedValue({
+          count: 1,
+        });
+      });
+
+      it('should admit the user right away into an open lobby', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.OPEN }),
+        );
+
+        const result = await service.createJoinRequest('lobby1', requester);
+
+        expect(result).toEqual({
+          message: 'You have joined the lobby',
+          lobbyId: 'lobby1',
+        });
+        expect(waitlistService.claimSeat).toHaveBeenCalledWith(
+          prismaService,
+          'lobby1',
+          10,
+        );
+        expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+          where: { id: 'requester2', lobbyId: null },
+          data: { lobbyId: 'lobby1', lobbyJoinedAt: expect.any(Date) },
+        });
+        expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
+        expect(auditService.record).toHaveBeenCalledWith({
+          lobbyId: 'lobby1',
+          action: LobbyAuditAction.MEMBER_JOINED,
+          actorId: 'requester2',
+          targetUserId: 'requester2',
+          payload: { joinPolicy: LobbyJoinPolicy.OPEN },
+        });
+        expect(notificationsService.notify).toHaveBeenCalledWith('user1', {
+          type: NotificationType.MEMBER_JOINED,
+          lobbyId: 'lobby1',
+          payload: { userId: 'requester2' },
+        });
+        expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+          'requester2',
+          'lobby1',
+        );
+        expect(lobbyGateway.notifyNewMember).toHaveBeenCalledWith(
+          'lobby1',
+          'requester2',
+          'TestUser',
+        );
+      });
+
+      it('should supersede the pending requests of an admitted user', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.OPEN }),
+        );
+        (
+          prismaService.lobbyJoinRequest.findMany as jest.Mock
+        ).mockResolvedValueOnce([{ id: 'request2', lobbyId: 'lobby2' }]);
+
+        await service.createJoinRequest('lobby1', requester);
+
+        expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+          where: {
+            id: { in: ['request2'] },
+            status: {
+              in: [RequestStatus.PENDING, RequestStatus.WAITLISTED],
+            },
+          },
+          data: {
+            status: RequestStatus.SUPERSEDED,
+            decidedAt: expect.any(Date),
+          },
+        });
+        expect(
+          prismaService.lobbyJoinRequest.deleteMany,
+        ).not.toHaveBeenCalled();
+        expect(lobbyGateway.notifyRequestCancelled).toHaveBeenCalledWith(
+          'lobby2',
+          'requester2',
+        );
+      });
+
+      it('should take an admitted user off the waitlists of other lobbies', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.OPEN }),
+        );
+        (
+          prismaService.lobbyWaitlistEntry.findMany as jest.Mock
+        ).mockResolvedValueOnce([{ lobbyId: 'lobby3' }]);
+
+        await service.createJoinRequest('lobby1', requester);
+
+        expect(
+          prismaService.lobbyWaitlistEntry.deleteMany,
+        ).toHaveBeenCalledWith({ where: { userId: 'requester2' } });
+        expect(waitlistService.fillOpenSlots).toHaveBeenCalledWith('lobby3');
+      });
+
+      it('should not admit the user when the last seat was taken meanwhile', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.OPEN }),
+        );
+        waitlistService.claimSeat.mockRejectedValueOnce(
+          new BadRequestException('Lobby has reached maximum capacity'),
+        );
+
+        await expect(
+          service.createJoinRequest('lobby1', requester),
+        ).rejects.toThrow('Lobby has reached maximum capacity');
+        expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+        expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+      });
+
+      it('should not move a user who joined another lobby meanwhile', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.OPEN }),
+        );
+        (prismaService.user.updateMany as jest.Mock).mockResolvedValueOnce({
+          count: 0,
+        });
+
+        await expect(
+          service.createJoinRequest('lobby1', requester),
+        ).rejects.toThrow('You are already a member of a lobby');
+        expect(auditService.record).not.toHaveBeenCalled();
+        expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+      });
+
+      it('should put the user on the waitlist when an open lobby is full', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({
+            joinPolicy: LobbyJoinPolicy.OPEN,
+            members: Array(10).fill(mockUser),
+            capacity: 10,
+          }),
+        );
+        waitlistService.hasOpenSlot.mockResolvedValueOnce(false);
+        waitlistService.enqueue.mockResolvedValueOnce(3);
+
+        const result = await service.createJoinRequest('lobby1', requester);
+
+        expect(result).toEqual(
+          expect.objectContaining({ lobbyId: 'lobby1', position: 3 }),
+        );
+        expect(waitlistService.hasOpenSlot).toHaveBeenCalledWith(
+          'lobby1',
+          10,
+          10,
+        );
+        expect(waitlistService.enqueue).toHaveBeenCalledWith(
+          'lobby1',
+          'requester2',
+        );
+        expect(prismaService.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should refuse requests to an invite-only lobby', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+          createMockLobby({ joinPolicy: LobbyJoinPolicy.INVITE_ONLY }),
+        );
+
+        await expect(
+          service.createJoinRequest('lobby1', requester),
+        ).rejects.toThrow(ForbiddenException);
+        expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
+      });
+
+      it('should admit the user into a password lobby with the right passphrase', async () => {
+        (prismaService.lobby.findUnique as jest.Mock)
+          .mockResolvedValueOnce(
+            createMockLobby({ joinPolicy: LobbyJoinPolicy.PASSWORD }),
+          )
+          .mockResolvedValueOnce({
+            joinPasswordHash: await bcrypt.hash('open sesame', 4),
+          });
+
+        const result = await service.createJoinRequest('lobby1', requester, {
+          password: 'open sesame',
+        });
+
+        expect(result).toEqual(expect.objectContaining({ lobbyId: 'lobby1' }));
+        expect(prismaService.lobby.findUnique).toHaveBeenLastCalledWith({
+          where: { id: 'lobby1' },
+          select: { joinPasswordHash: true },
+        });
+        expect(prismaService.$transaction).toHaveBeenCalled();
+      });
+
+      it('should throw for a wrong or missing passphrase', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockImplementation(
+          (args: Prisma.LobbyFindUniqueArgs) =>
+            Promise.resolve(
+              args.select
+                ? { joinPasswordHash: bcrypt.hashSync('open sesame', 4) }
+                : createMockLobby({ joinPolicy: LobbyJoinPolicy.PASSWORD }),
+            ),
+        );
+
+        await expect(
+          service.createJoinRequest('lobby1', requester, {
+            password: 'let me in',
+          }),
+        ).rejects.toThrow(ForbiddenException);
+        await expect(
+          service.createJoinRequest('lobby1', requester),
+        ).rejects.toThrow(ForbiddenException);
+        expect(prismaService.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should lock a user out after too many wrong passphrases', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockImplementation(
+          (args: Prisma.LobbyFindUniqueArgs) =>
+            Promise.resolve(
+              args.select
+                ? { joinPasswordHash: bcrypt.hashSync('open sesame', 4) }
+                : createMockLobby({ joinPolicy: LobbyJoinPolicy.PASSWORD }),
+            ),
+        );
+
+        for (let i = 0; i < MAX_JOIN_PASSWORD_ATTEMPTS; i++) {
+          await expect(
+            service.createJoinRequest('lobby1', requester, {
+              password: 'let me in',
+            }),
+          ).rejects.toThrow('Incorrect lobby password');
+        }
+
+        await expect(
+          service.createJoinRequest('lobby1', requester, {
+            password: 'open sesame',
+          }),
+        ).rejects.toThrow('Too many incorrect passwords');
+        await expect(
+          redis.ttl('lobby:lobby1:password-attempts:requester2'),
+        ).resolves.toBeGreaterThan(0);
+        expect(prismaService.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should reset the attempt count once the right passphrase is given', async () => {
+        (prismaService.lobby.findUnique as jest.Mock).mockImplementation(
+          (args: Prisma.LobbyFindUniqueArgs) =>
+            Promise.resolve(
+              args.select
+                ? { joinPasswordHash: bcrypt.hashSync('open sesame', 4) }
+                : createMockLobby({ joinPolicy: LobbyJoinPolicy.PASSWORD }),
+            ),
+        );
+        await redis.set('lobby:lobby1:password-attempts:requester2', 2);
+
+        await service.createJoinRequest('lobby1', requester, {
+          password: 'open sesame',
+        });
+
+        await expect(
+          redis.exists('lobby:lobby1:password-attempts:requester2'),
+        ).resolves.toBe(0);
+      });
+    });
+  });
+  //#endregion
+
+  //#region cancelJoinRequest
+  describe('cancelJoinRequest', () => {
+    it('should keep the cancelled request as history', async () => {
+      const requester = { ...mockUser, id: 'requester1' };
+
+      const result = await service.cancelJoinRequest('lobby1', requester);
+
+      expect(result).toEqual({ message: 'Join request has been cancelled' });
+      expect(prismaService.lobbyJoinRequest.update).toHaveBeenCalledWith({
+        where: { id: mockJoinRequest.id },
+        data: { status: RequestStatus.CANCELLED, decidedAt: expect.any(Date) },
+      });
+      expect(prismaService.lobbyJoinRequest.delete).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyRequestCancelled).toHaveBeenCalledWith(
+        'lobby1',
+        'requester1',
+      );
+    });
   });
   //#endregion
 
@@ -330,6 +814,23 @@ describe('LobbyService', () => {
 
       expect(result).toEqual({ message: 'User has been added to the lobby' });
       expect(prismaService.$transaction).toHaveBeenCalled();
+      expect(prismaService.lobbyJoinRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request1' },
+        data: {
+          status: RequestStatus.APPROVED,
+          decidedAt: expect.any(Date),
+          decidedById: 'owner1',
+        },
+      });
+      expect(prismaService.lobbyJoinRequest.delete).not.toHaveBeenCalled();
+      expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+        'requester1',
+        'lobby1',
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith('requester1', {
+        type: NotificationType.REQUEST_ACCEPTED,
+        lobbyId: 'lobby1',
+      });
       expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
         'requester1',
         'lobby1',
@@ -337,7 +838,7 @@ describe('LobbyService', () => {
       );
     });
 
-    it('should throw if lobby is at capacity', async () => {
+    it('should put the applicant on the waitlist if lobby is at capacity', async () => {
       const owner = { ...mockUser, role: UserRole.OWNER, id: 'owner1' };
 
       (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
@@ -346,10 +847,28 @@ describe('LobbyService', () => {
           members: Array(10).fill(mockUser),
         }),
       );
+      waitlistService.hasOpenSlot.mockResolvedValueOnce(false);
+      waitlistService.enqueue.mockResolvedValueOnce(2);
 
-      await expect(
-        service.approveJoinRequest('lobby1', 'requester1', owner),
-      ).rejects.toThrow(BadRequestException);
+      const result = await service.approveJoinRequest(
+        'lobby1',
+        'requester1',
+        owner,
+      );
+
+      expect(result).toEqual(expect.objectContaining({ position: 2 }));
+      expect(waitlistService.enqueue).toHaveBeenCalledWith(
+        'lobby1',
+        'requester1',
+        'owner1',
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+      expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
+        'requester1',
+        'lobby1',
+        'waitlisted',
+      );
     });
   });
   //#endregion
@@ -375,13 +894,48 @@ describe('LobbyService', () => {
       });
       expect(prismaService.user.update).toHaveBeenCalledWith({
         where: { id: 'member1' },
-        data: { lobbyId: null, role: UserRole.MEMBER },
+        data: { lobbyId: null, lobbyJoinedAt: null, role: UserRole.MEMBER },
+      });
+      expect(auditService.record).toHaveBeenCalledWith({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.MEMBER_KICKED,
+        actorId: 'owner1',
+        targetUserId: 'member1',
       });
       expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
         'member1',
         'lobby1',
         'kicked',
       );
+      expect(notificationsService.notify).toHaveBeenCalledWith('member1', {
+        type: NotificationType.MEMBER_KICKED,
+        lobbyId: 'lobby1',
+      });
+      expect(lobbyGateway.leaveLobbyRoom).toHaveBeenCalledWith(
+        'member1',
+        'lobby1',
+      );
+      expect(waitlistService.fillOpenSlots).toHaveBeenCalledWith('lobby1');
+    });
+
+    it('should keep the notification for an offline member', async () => {
+      const owner = { ...mockUser, role: UserRole.OWNER, id: 'owner1' };
+
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockLobby({ ownerId: 'owner1' }),
+      );
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce(
+        mockMember,
+      );
+      lobbyGateway.isUserConnected.mockResolvedValueOnce(false);
+
+      await service.removeMember('lobby1', 'member1', owner);
+
+      expect(notificationsService.notify).toHaveBeenCalledWith('member1', {
+        type: NotificationType.MEMBER_KICKED,
+        lobbyId: 'lobby1',
+      });
+      expect(lobbyGateway.notifyUserRequestUpdate).not.toHaveBeenCalled();
     });
 
     it('should throw if member not found', async () => {
@@ -393,37 +947,211 @@ describe('LobbyService', () => {
         service.removeMember('lobby1', 'nonexistent', owner),
       ).rejects.toThrow(BadRequestException);
     });
-  });
-  //#endregion
 
-  //#region createLobby
-  describe('createLobby', () => {
-    it('should create lobby successfully', async () => {
-      const dto: CreateLobbyDto = {
-        name: 'New Lobby',
-        visibility: LobbyVisibility.PUBLIC,
-        description: 'Test lobby description',
-        imageUrl: 'test-image-url',
-      };
-      const user = { ...mockUser, memberLobby: null };
+    it('should kick and ban the member when requested', async () => {
+      const owner = { ...mockUser, role: UserRole.OWNER, id: 'owner1' };
 
-      (prismaService.lobby.create as jest.Mock).mockResolvedValueOnce({
-        ...mockLobby,
-        name: dto.name,
-        visibility: dto.visibility,
-        description: dto.description,
-        imageUrl: dto.imageUrl || null,
-      });
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockLobby({ ownerId: 'owner1' }),
+      );
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce(
+        mockMember,
+      );
+      (prismaService.$transaction as jest.Mock).mockResolvedValueOnce([]);
 
-      const result = await service.createLobby(dto, user);
+      const result = await service.removeMember('lobby1', 'member1', owner, {
+        ban: true,
+        reason: 'Toxic',
+        expiresInHours: 24,
+      });
 
-      expect(result).toEqual(
+      expect(result).toEqual({
+        message: 'Member has been removed and banned from the lobby',
+      });
+      expect(prismaService.lobbyBan.upsert).toHaveBeenCalledWith(
         expect.objectContaining({
-          name: dto.name,
-          visibility: dto.visibility,
-          description: dto.description,
+          where: { lobbyId_userId: { lobbyId: 'lobby1', userId: 'member1' } },
+          create: {
+            lobbyId: 'lobby1',
+            userId: 'member1',
+            reason: 'Toxic',
+            expiresAt: expect.any(Date),
+            bannedById: 'owner1',
+          },
+        }),
+      );
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'member1', lobbyId: 'lobby1' },
+        data: { lobbyId: null, lobbyJoinedAt: null, role: UserRole.MEMBER },
+      });
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: LobbyAuditAction.MEMBER_BANNED,
+          targetUserId: 'member1',
+          payload: {
+            reason: 'Toxic',
+            expiresAt: expect.any(String),
+            kicked: true,
+          },
         }),
       );
+      expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
+        'member1',
+        'lobby1',
+        'banned',
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith('member1', {
+        type: NotificationType.MEMBER_BANNED,
+        lobbyId: 'lobby1',
+        payload: { reason: 'Toxic', expiresAt: expect.any(String) },
+      });
+      expect(lobbyGateway.leaveLobbyRoom).toHaveBeenCalledWith(
+        'member1',
+        'lobby1',
+      );
+    });
+  });
+  //#endregion
+
+  //#region bans
+  describe('bans', () => {
+    it('should ban a non-member and reject their pending request', async () => {
+      (prismaService.$transaction as jest.Mock).mockResolvedValueOnce([]);
+
+      const result = await service.banUser('lobby1', mockUser, {
+        userId: 'requester1',
+      });
+
+      expect(result).toEqual({
+        message: 'User has been banned from the lobby',
+      });
+      expect(prismaService.lobbyBan.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: {
+            lobbyId: 'lobby1',
+            userId: 'requester1',
+            reason: null,
+            expiresAt: null,
+            bannedById: 'user1',
+          },
+        }),
+      );
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'requester1',
+          lobbyId: 'lobby1',
+          status: { in: [RequestStatus.PENDING, RequestStatus.WAITLISTED] },
+        },
+        data: {
+          status: RequestStatus.REJECTED,
+          decidedAt: expect.any(Date),
+          decidedById: 'user1',
+        },
+      });
+      expect(prismaService.lobbyWaitlistEntry.deleteMany).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1', userId: 'requester1' },
+      });
+      expect(lobbyGateway.leaveLobbyRoom).not.toHaveBeenCalled();
+    });
+
+    it('should throw when banning an unknown user', async () => {
+      await expect(
+        service.banUser('lobby1', mockUser, { userId: 'nonexistent' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw if user is not the owner', async () => {
+      await expect(
+        service.banUser('other-lobby', mockUser, { userId: 'requester1' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should lift an existing ban', async () => {
+      (prismaService.lobbyBan.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'ban1',
+      });
+
+      const result = await service.unbanUser('lobby1', 'requester1', mockUser);
+
+      expect(result).toEqual({
+        message: 'User has been unbanned from the lobby',
+      });
+      expect(prismaService.lobbyBan.delete).toHaveBeenCalledWith({
+        where: { id: 'ban1' },
+      });
+    });
+
+    it('should throw when unbanning a user who is not banned', async () => {
+      (prismaService.lobbyBan.findUnique as jest.Mock).mockResolvedValueOnce(
+        null,
+      );
+
+      await expect(
+        service.unbanUser('lobby1', 'requester1', mockUser),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should stop a banned user from requesting to join', async () => {
+      (prismaService.lobbyBan.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'ban1',
+        expiresAt: null,
+      });
+
+      await expect(
+        service.createJoinRequest('lobby1', { ...mockUser, id: 'requester2' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.lobbyJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an expired ban', async () => {
+      (prismaService.lobbyBan.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'ban1',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await service.createJoinRequest('lobby1', {
+        ...mockUser,
+        id: 'requester2',
+      });
+
+      expect(prismaService.lobbyJoinRequest.create).toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region createLobby
+  describe('createLobby', () => {
+    it('should create lobby successfully', async () => {
+      const dto: CreateLobbyDto = {
+        name: 'New Lobby',
+        visibility: LobbyVisibility.PUBLIC,
+        description: 'Test lobby description',
+        imageUrl: 'test-image-url',
+      };
+      const user = { ...mockUser, memberLobby: null };
+
+      (prismaService.lobby.create as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        name: dto.name,
+        visibility: dto.visibility,
+        description: dto.description,
+        imageUrl: dto.imageUrl || null,
+      });
+
+      const result = await service.createLobby(dto, user);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          name: dto.name,
+          visibility: dto.visibility,
+          description: dto.description,
+        }),
+      );
+      expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+        user.id,
+        mockLobby.id,
+      );
     });
 
     it('should throw if user already in a lobby', async () => {
@@ -440,4 +1168,1027 @@ describe('LobbyService', () => {
     });
   });
   //#endregion
+
+  //#region listPublicLobbies
+  describe('listPublicLobbies', () => {
+    const lobbyRow = (id: string, members: number, games: number) => ({
+      id,
+      name: `Lobby ${id}`,
+      description: 'Public lobby',
+      imageUrl: null,
+      visibility: LobbyVisibility.PUBLIC,
+      capacity: 10,
+      createdAt: new Date(),
+      _count: { members, games },
+    });
+
+    it('should return summaries of public lobbies only', async () => {
+      (prismaService.lobby.findMany as jest.Mock).mockResolvedValueOnce([
+        lobbyRow('lobby1', 3, 5),
+      ]);
+
+      const result = await service.listPublicLobbies({});
+
+      expect(result).toEqual({
+        items: [
+          expect.objectContaining({
+            id: 'lobby1',
+            memberCount: 3,
+            gameCount: 5,
+            freeSlots: 7,
+          }),
+        ],
+        nextCursor: null,
+      });
+      expect(prismaService.lobby.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { visibility: LobbyVisibility.PUBLIC },
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          take: 21,
+        }),
+      );
+      expect(prismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should apply search, sort and cursor', async () => {
+      (prismaService.lobby.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await service.listPublicLobbies({
+        search: 'inhouse',
+        sort: LobbySort.MOST_ACTIVE,
+        cursor: 'lobby-cursor',
+      });
+
+      expect(prismaService.lobby.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: LobbyVisibility.PUBLIC,
+            OR: [
+              { name: { contains: 'inhouse', mode: 'insensitive' } },
+              { description: { contains: 'inhouse', mode: 'insensitive' } },
+            ],
+          },
+          orderBy: [{ games: { _count: 'desc' } }, { id: 'asc' }],
+          cursor: { id: 'lobby-cursor' },
+          skip: 1,
+        }),
+      );
+    });
+
+    it('should restrict results to lobbies matching member filters', async () => {
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValueOnce([
+        { id: 'lobby1' },
+      ]);
+      (prismaService.lobby.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await service.listPublicLobbies({ minMembers: 2, minFreeSlots: 1 });
+
+      expect(prismaService.$queryRaw).toHaveBeenCalled();
+      expect(prismaService.lobby.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: LobbyVisibility.PUBLIC,
+            id: { in: ['lobby1'] },
+          },
+        }),
+      );
+    });
+
+    it('should return a next cursor when more results exist', async () => {
+      (prismaService.lobby.findMany as jest.Mock).mockResolvedValueOnce([
+        lobbyRow('lobby1', 1, 0),
+        lobbyRow('lobby2', 1, 0),
+      ]);
+
+      const result = await service.listPublicLobbies({ limit: 1 });
+
+      expect(result?.items).toHaveLength(1);
+      expect(result?.nextCursor).toBe('lobby1');
+    });
+
+    it('should throw if minMembers exceeds maxMembers', async () => {
+      await expect(
+        service.listPublicLobbies({ minMembers: 5, maxMembers: 2 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+  //#endregion
+
+  //#region updateLobby
+  describe('updateLobby', () => {
+    const owner = { ...mockUser, role: UserRole.OWNER };
+
+    it('should update lobby profile and broadcast the change', async () => {
+      const dto: UpdateLobbyDto = { name: 'Renamed Lobby', capacity: 20 };
+
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 5 },
+      });
+      (prismaService.lobby.update as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        name: 'Renamed Lobby',
+        capacity: 20,
+      });
+
+      const result = await service.updateLobby('lobby1', owner, dto);
+
+      expect(result).toEqual(
+        expect.objectContaining({ name: 'Renamed Lobby', capacity: 20 }),
+      );
+      expect(prismaService.lobby.update).toHaveBeenCalledWith({
+        where: { id: 'lobby1' },
+        data: { name: 'Renamed Lobby', capacity: 20 },
+      });
+      expect(lobbyGateway.notifyLobbyUpdated).toHaveBeenCalledWith('lobby1', {
+        name: 'Renamed Lobby',
+        description: mockLobby.description,
+        imageUrl: mockLobby.imageUrl,
+        capacity: 20,
+        joinPolicy: LobbyJoinPolicy.APPROVAL,
+      });
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should hash the passphrase when switching to the password policy', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 1 },
+      });
+      (prismaService.lobby.update as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        joinPolicy: LobbyJoinPolicy.PASSWORD,
+      });
+
+      await service.updateLobby('lobby1', owner, {
+        joinPolicy: LobbyJoinPolicy.PASSWORD,
+        joinPassword: 'open sesame',
+      });
+
+      const { data } = (prismaService.lobby.update as jest.Mock).mock
+        .calls[0][0] as Prisma.LobbyUpdateArgs;
+      expect(data.joinPolicy).toBe(LobbyJoinPolicy.PASSWORD);
+      await expect(
+        bcrypt.compare('open sesame', data.joinPasswordHash as string),
+      ).resolves.toBe(true);
+      expect(auditService.record).toHaveBeenCalledWith({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.JOIN_POLICY_CHANGED,
+        actorId: owner.id,
+        payload: {
+          from: LobbyJoinPolicy.APPROVAL,
+          to: LobbyJoinPolicy.PASSWORD,
+        },
+      });
+    });
+
+    it('should require a passphrase when switching to the password policy', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 1 },
+      });
+
+      await expect(
+        service.updateLobby('lobby1', owner, {
+          joinPolicy: LobbyJoinPolicy.PASSWORD,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobby.update).not.toHaveBeenCalled();
+    });
+
+    it('should clear the passphrase when leaving the password policy', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        joinPolicy: LobbyJoinPolicy.PASSWORD,
+        joinPasswordHash: 'hash',
+        _count: { members: 1 },
+      });
+      (prismaService.lobby.update as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        joinPolicy: LobbyJoinPolicy.OPEN,
+      });
+
+      await service.updateLobby('lobby1', owner, {
+        joinPolicy: LobbyJoinPolicy.OPEN,
+      });
+
+      expect(prismaService.lobby.update).toHaveBeenCalledWith({
+        where: { id: 'lobby1' },
+        data: { joinPolicy: LobbyJoinPolicy.OPEN, joinPasswordHash: null },
+      });
+    });
+
+    it('should update the application questions', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 1 },
+      });
+      (prismaService.lobby.update as jest.Mock).mockResolvedValueOnce(
+        mockLobby,
+      );
+
+      await service.updateLobby('lobby1', owner, {
+        applicationQuestions: [' What is your rank? '],
+      });
+
+      expect(prismaService.lobby.update).toHaveBeenCalledWith({
+        where: { id: 'lobby1' },
+        data: { applicationQuestions: ['What is your rank?'] },
+      });
+    });
+
+    it('should throw if capacity is lower than member count', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 8 },
+      });
+
+      await expect(
+        service.updateLobby('lobby1', owner, { capacity: 5 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobby.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw if no fields are provided', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        _count: { members: 1 },
+      });
+
+      await expect(service.updateLobby('lobby1', owner, {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw if user is not the owner', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockLobby,
+        ownerId: 'other-owner',
+        _count: { members: 1 },
+      });
+
+      await expect(
+        service.updateLobby('lobby1', owner, { name: 'Nope' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+  //#endregion
+
+  //#region disbandLobby
+  describe('disbandLobby', () => {
+    /** Transaction client handed to the interactive transaction callback */
+    const createTransactionClient = () => ({
+      user: { updateMany: jest.fn() },
+      playerStats: { deleteMany: jest.fn() },
+      lobbyGame: { deleteMany: jest.fn(), updateMany: jest.fn() },
+      lobby: { delete: jest.fn() },
+    });
+
+    it('should detach members, archive games and notify the lobby', async () => {
+      const tx = createTransactionClient();
+      (prismaService.$transaction as jest.Mock).mockImplementationOnce(
+        (callback: (client: typeof tx) => Promise<void>) => callback(tx),
+      );
+
+      const result = await service.disbandLobby('lobby1', mockUser);
+
+      expect(result).toEqual({ message: 'Lobby has been disbanded' });
+      expect(tx.user.updateMany).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1' },
+        data: { lobbyId: null, lobbyJoinedAt: null, role: UserRole.MEMBER },
+      });
+      expect(tx.lobbyGame.updateMany).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1' },
+        data: expect.objectContaining({
+          lobbyId: null,
+          archivedLobbyName: 'Test Lobby',
+        }),
+      });
+      expect(tx.lobbyGame.deleteMany).not.toHaveBeenCalled();
+      expect(tx.lobby.delete).toHaveBeenCalledWith({ where: { id: 'lobby1' } });
+      expect(lobbyGateway.notifyLobbyDisbanded).toHaveBeenCalledWith('lobby1');
+      expect(lobbyGateway.closeLobbyRoom).toHaveBeenCalledWith('lobby1');
+    });
+
+    it('should delete games and their stats when requested', async () => {
+      const tx = createTransactionClient();
+      (prismaService.$transaction as jest.Mock).mockImplementationOnce(
+        (callback: (client: typeof tx) => Promise<void>) => callback(tx),
+      );
+
+      await service.disbandLobby('lobby1', mockUser, DisbandGamesAction.DELETE);
+
+      expect(tx.playerStats.deleteMany).toHaveBeenCalledWith({
+        where: { lobbyGame: { lobbyId: 'lobby1' } },
+      });
+      expect(tx.lobbyGame.deleteMany).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1' },
+      });
+      expect(tx.lobbyGame.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw if user is not the owner', async () => {
+      await expect(
+        service.disbandLobby('other-lobby', mockUser),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region transferOwnership
+  describe('transferOwnership', () => {
+    it('should promote the member and notify the lobby', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockMember,
+        username: 'NewOwner',
+      });
+      (prismaService.$transaction as jest.Mock).mockResolvedValueOnce([]);
+
+      const result = await service.transferOwnership(
+        'lobby1',
+        'member1',
+        mockUser,
+      );
+
+      expect(result).toEqual({
+        message: 'Lobby ownership has been transferred',
+      });
+      expect(prismaService.lobby.update).toHaveBeenCalledWith({
+        where: { id: 'lobby1' },
+        data: { owner: { connect: { id: 'member1' } } },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { role: UserRole.OWNER },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user1' },
+        data: { role: UserRole.MEMBER },
+      });
+      expect(lobbyGateway.notifyOwnershipTransferred).toHaveBeenCalledWith(
+        'lobby1',
+        'user1',
+        'member1',
+        'NewOwner',
+      );
+    });
+
+    it('should throw if target is not a member of the lobby', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockUser,
+        id: 'outsider',
+        lobbyId: null,
+      });
+
+      await expect(
+        service.transferOwnership('lobby1', 'outsider', mockUser),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw if user is not the owner', async () => {
+      await expect(
+        service.transferOwnership('other-lobby', 'member1', mockUser),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+  //#endregion
+
+  //#region leaveLobby
+  describe('leaveLobby', () => {
+    const owner = {
+      ...mockUser,
+      role: UserRole.OWNER,
+      lobbyId: 'lobby1',
+      memberLobby: mockLobby,
+    };
+
+    it('should let a member leave', async () => {
+      const result = await service.leaveLobby(mockMember);
+
+      expect(result).toEqual({ message: 'You have left the lobby' });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { lobbyId: null, lobbyJoinedAt: null, role: UserRole.MEMBER },
+      });
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+      expect(lobbyGateway.leaveLobbyRoom).toHaveBeenCalledWith(
+        'member1',
+        'lobby1',
+      );
+      expect(waitlistService.fillOpenSlots).toHaveBeenCalledWith('lobby1');
+    });
+
+    it('should block the owner when no admin can take over', async () => {
+      (prismaService.user.findFirst as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(service.leaveLobby(owner)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should promote the longest-standing admin when the owner leaves', async () => {
+      (prismaService.user.findFirst as jest.Mock).mockResolvedValueOnce({
+        ...mockUser,
+        id: 'admin1',
+        username: 'Admin',
+        role: UserRole.ADMIN,
+        lobbyId: 'lobby1',
+      });
+      (prismaService.$transaction as jest.Mock).mockResolvedValueOnce([]);
+
+      const result = await service.leaveLobby(owner);
+
+      expect(result).toEqual({ message: 'You have left the lobby' });
+      expect(prismaService.user.findFirst).toHaveBeenCalledWith({
+        where: { lobbyId: 'lobby1', role: UserRole.ADMIN },
+        orderBy: { lobbyJoinedAt: 'asc' },
+      });
+      expect(prismaService.$transaction).toHaveBeenCalled();
+      expect(lobbyGateway.notifyOwnershipTransferred).toHaveBeenCalledWith(
+        'lobby1',
+        'user1',
+        'admin1',
+        'Admin',
+      );
+    });
+  });
+  //#endregion
+
+  //#region promoteMember / demoteMember
+  describe('promoteMember', () => {
+    it('should promote a member to admin and notify the lobby', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce(
+        mockMember,
+      );
+
+      const result = await service.promoteMember('lobby1', 'member1', mockUser);
+
+      expect(result).toEqual({ message: 'Member has been promoted to admin' });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { role: UserRole.ADMIN },
+      });
+      expect(lobbyGateway.notifyMemberRoleChanged).toHaveBeenCalledWith(
+        'lobby1',
+        'member1',
+        'TestUser',
+        UserRole.ADMIN,
+      );
+    });
+
+    it('should throw if member is already an admin', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockMember,
+        role: UserRole.ADMIN,
+      });
+
+      await expect(
+        service.promoteMember('lobby1', 'member1', mockUser),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw if target is not in the lobby', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockMember,
+        lobbyId: 'lobby2',
+      });
+
+      await expect(
+        service.promoteMember('lobby1', 'member1', mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw if user is not the owner', async () => {
+      await expect(
+        service.promoteMember('other-lobby', 'member1', mockUser),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('demoteMember', () => {
+    it('should demote an admin back to member', async () => {
+      (prismaService.user.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...mockMember,
+        role: UserRole.ADMIN,
+      });
+
+      const result = await service.demoteMember('lobby1', 'member1', mockUser);
+
+      expect(result).toEqual({ message: 'Admin has been demoted to member' });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'member1' },
+        data: { role: UserRole.MEMBER },
+      });
+      expect(lobbyGateway.notifyMemberRoleChanged).toHaveBeenCalledWith(
+        'lobby1',
+        'member1',
+        'TestUser',
+        UserRole.MEMBER,
+      );
+    });
+
+    it('should throw if owner targets themselves', async () => {
+      await expect(
+        service.demoteMember('lobby1', 'user1', mockUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+  //#endregion
+
+  //#region getLobby
+  describe('getLobby', () => {
+    it('should include each member role in the response', async () => {
+      await service.getLobby('lobby1', mockUser);
+
+      expect(prismaService.lobby.findUnique).toHaveBeenCalledWith({
+        where: { id: 'lobby1' },
+        include: {
+          owner: true,
+          members: {
+            select: expect.objectContaining({ id: true, role: true }),
+          },
+          games: true,
+        },
+      });
+    });
+
+    it('should only summarize an invite-only lobby for non-members', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockLobby({
+          joinPolicy: LobbyJoinPolicy.INVITE_ONLY,
+          members: [mockUser],
+        }),
+      );
+
+      const result = await service.getLobby('lobby1', {
+        ...mockUser,
+        id: 'outsider1',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ id: 'lobby1', memberCount: 1, freeSlots: 9 }),
+      );
+      expect(result).not.toHaveProperty('members');
+      expect(result).not.toHaveProperty('games');
+      expect(result).not.toHaveProperty('owner');
+    });
+
+    it('should return the full invite-only lobby to its members', async () => {
+      (prismaService.lobby.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockLobby({
+          joinPolicy: LobbyJoinPolicy.INVITE_ONLY,
+          members: [mockUser],
+        }),
+      );
+
+      const result = await service.getLobby('lobby1', {
+        ...mockUser,
+        memberLobby: { id: 'lobby1' },
+      } as UserWithLobbyRelations);
+
+      expect(result).toHaveProperty('members', [mockUser]);
+    });
+  });
+  //#endregion
+
+  //#region invites
+  describe('invites', () => {
+    /** Creates a mock invite with optional overrides */
+    const createMockInvite = (
+      overrides: Partial<Prisma.LobbyInviteGetPayload<object>> = {},
+    ): Prisma.LobbyInviteGetPayload<object> => ({
+      id: 'invite1',
+      code: 'abc12345',
+      lobbyId: 'lobby1',
+      createdById: 'user1',
+      maxUses: null,
+      uses: 0,
+      expiresAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    });
+
+    const admin = {
+      ...mockMember,
+      id: 'admin1',
+      role: UserRole.ADMIN,
+    };
+
+    it('should let an admin create an invite with expiry and max uses', async () => {
+      (prismaService.lobbyInvite.create as jest.Mock).mockImplementationOnce(
+        (args: { data: object }) => Promise.resolve(args.data),
+      );
+
+      const result = await service.createInvite('lobby1', admin, {
+        expiresInHours: 24,
+        maxUses: 5,
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          lobbyId: 'lobby1',
+          createdById: 'admin1',
+          maxUses: 5,
+          code: expect.any(String),
+          expiresAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should forbid regular members from creating invites', async () => {
+      await expect(
+        service.createInvite('lobby1', mockMember, {}),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should revoke an invite', async () => {
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite(),
+      );
+
+      const result = await service.revokeInvite('lobby1', 'invite1', mockUser);
+
+      expect(result).toEqual({ message: 'Invite has been revoked' });
+      expect(prismaService.lobbyInvite.update).toHaveBeenCalledWith({
+        where: { id: 'invite1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    /**
+     * Runs interactive transactions against the mocked client, with the
+     * invite claim, seat claim and membership update as given.
+     */
+    const mockRedemption = ({
+      inviteClaimed = 1,
+      seatClaimed = true,
+      userJoined = 1,
+    } = {}) => {
+      (prismaService.$transaction as jest.Mock).mockImplementationOnce(
+        (callback: (tx: PrismaService) => Promise<unknown>) =>
+          callback(prismaService),
+      );
+      (prismaService.lobbyInvite.updateMany as jest.Mock).mockResolvedValueOnce(
+        { count: inviteClaimed },
+      );
+      if (!seatClaimed) {
+        waitlistService.claimSeat.mockRejectedValueOnce(
+          new BadRequestException('Lobby has reached maximum capacity'),
+        );
+      }
+      (prismaService.user.updateMany as jest.Mock).mockResolvedValueOnce({
+        count: userJoined,
+      });
+    };
+
+    it('should add the user to the lobby when redeeming a valid invite', async () => {
+      const invitee = { ...mockUser, id: 'invitee1', username: 'Invitee' };
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite({ maxUses: 2, uses: 1 }),
+      );
+      mockRedemption();
+
+      const result = await service.redeemInvite('abc12345', invitee);
+
+      expect(result).toEqual({
+        message: 'You have joined the lobby',
+        lobbyId: 'lobby1',
+      });
+      expect(prismaService.lobbyInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite1', revokedAt: null, uses: { lt: 2 } },
+        data: { uses: { increment: 1 } },
+      });
+      expect(waitlistService.claimSeat).toHaveBeenCalledWith(
+        prismaService,
+        'lobby1',
+        10,
+      );
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invitee1', lobbyId: null },
+        data: { lobbyId: 'lobby1', lobbyJoinedAt: expect.any(Date) },
+      });
+      expect(auditService.record).toHaveBeenCalledWith({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.MEMBER_JOINED,
+        actorId: 'invitee1',
+        targetUserId: 'invitee1',
+        payload: { inviteId: 'invite1' },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith('user1', {
+        type: NotificationType.MEMBER_JOINED,
+        lobbyId: 'lobby1',
+        payload: { userId: 'invitee1' },
+      });
+      expect(lobbyGateway.joinLobbyRoom).toHaveBeenCalledWith(
+        'invitee1',
+        'lobby1',
+      );
+      expect(lobbyGateway.notifyNewMember).toHaveBeenCalledWith(
+        'lobby1',
+        'invitee1',
+        'Invitee',
+      );
+    });
+
+    it('should supersede the pending requests of the invitee', async () => {
+      const invitee = { ...mockUser, id: 'invitee1' };
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite(),
+      );
+      mockRedemption();
+      (
+        prismaService.lobbyJoinRequest.findMany as jest.Mock
+      ).mockResolvedValueOnce([{ id: 'request2', lobbyId: 'lobby2' }]);
+
+      await service.redeemInvite('abc12345', invitee);
+
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['request2'] },
+          status: { in: [RequestStatus.PENDING, RequestStatus.WAITLISTED] },
+        },
+        data: { status: RequestStatus.SUPERSEDED, decidedAt: expect.any(Date) },
+      });
+      expect(prismaService.lobbyJoinRequest.deleteMany).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyRequestCancelled).toHaveBeenCalledWith(
+        'lobby2',
+        'invitee1',
+      );
+    });
+
+    it.each([
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+      ['used up', { maxUses: 1, uses: 1 }],
+    ])('should reject a %s invite', async (_label, overrides) => {
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite(overrides),
+      );
+
+      await expect(service.redeemInvite('abc12345', mockUser)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject redemption when the lobby is full', async () => {
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite({ lobbyId: 'full-lobby' }),
+      );
+      mockRedemption({ seatClaimed: false });
+
+      await expect(service.redeemInvite('abc12345', mockUser)).rejects.toThrow(
+        'Lobby has reached maximum capacity',
+      );
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a redemption that loses the race for the last use', async () => {
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite({ maxUses: 2, uses: 1 }),
+      );
+      mockRedemption({ inviteClaimed: 0 });
+
+      await expect(service.redeemInvite('abc12345', mockUser)).rejects.toThrow(
+        'This invite has reached its maximum number of uses',
+      );
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+      expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+    });
+
+    it('should stop a banned user from redeeming an invite', async () => {
+      (prismaService.lobbyInvite.findUnique as jest.Mock).mockResolvedValueOnce(
+        createMockInvite(),
+      );
+      (prismaService.lobbyBan.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'ban1',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      await expect(service.redeemInvite('abc12345', mockUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject redemption by a user already in a lobby', async () => {
+      await expect(
+        service.redeemInvite('abc12345', mockMember),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.lobbyInvite.findUnique).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region rejectJoinRequest
+  describe('rejectJoinRequest', () => {
+    it('should keep the request with a REJECTED status', async () => {
+      const result = await service.rejectJoinRequest(
+        'lobby1',
+        'requester1',
+        mockUser,
+      );
+
+      expect(result).toEqual({ message: 'Join request has been rejected' });
+      expect(prismaService.lobbyJoinRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request1' },
+        data: {
+          status: RequestStatus.REJECTED,
+          decidedAt: expect.any(Date),
+          decidedById: 'user1',
+        },
+      });
+      expect(prismaService.lobbyJoinRequest.delete).not.toHaveBeenCalled();
+      expect(auditService.record).toHaveBeenCalledWith({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.REQUEST_REJECTED,
+        actorId: 'user1',
+        targetUserId: 'requester1',
+        payload: { requestId: 'request1' },
+      });
+      expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
+        'requester1',
+        'lobby1',
+        'rejected',
+      );
+      expect(lobbyGateway.joinLobbyRoom).not.toHaveBeenCalled();
+      expect(notificationsService.notify).toHaveBeenCalledWith('requester1', {
+        type: NotificationType.REQUEST_REJECTED,
+        lobbyId: 'lobby1',
+      });
+    });
+
+    it('should throw if there is no pending request', async () => {
+      await expect(
+        service.rejectJoinRequest('lobby1', 'nonexistent', mockUser),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+  //#endregion
+
+  //#region expireStaleJoinRequests
+  describe('expireStaleJoinRequests', () => {
+    it('should expire old pending requests and notify applicant and owner', async () => {
+      (
+        prismaService.lobbyJoinRequest.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        {
+          id: 'request1',
+          userId: 'requester1',
+          lobbyId: 'lobby1',
+          lobby: { ownerId: 'user1' },
+        },
+      ]);
+      (
+        prismaService.lobbyJoinRequest.updateMany as jest.Mock
+      ).mockResolvedValueOnce({ count: 1 });
+
+      const expired = await service.expireStaleJoinRequests();
+
+      expect(expired).toBe(1);
+      expect(prismaService.lobbyJoinRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: RequestStatus.PENDING,
+            createdAt: { lt: expect.any(Date) },
+          },
+        }),
+      );
+      expect(prismaService.lobbyJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request1', status: RequestStatus.PENDING },
+        data: { status: RequestStatus.EXPIRED, decidedAt: expect.any(Date) },
+      });
+      expect(lobbyGateway.notifyUserRequestUpdate).toHaveBeenCalledWith(
+        'requester1',
+        'lobby1',
+        'expired',
+      );
+      expect(lobbyGateway.notifyRequestExpired).toHaveBeenCalledWith(
+        'lobby1',
+        'user1',
+        'requester1',
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith('requester1', {
+        type: NotificationType.REQUEST_EXPIRED,
+        lobbyId: 'lobby1',
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith('user1', {
+        type: NotificationType.JOIN_REQUEST_EXPIRED,
+        lobbyId: 'lobby1',
+        payload: { userId: 'requester1' },
+      });
+    });
+
+    it('should skip requests decided since the lookup', async () => {
+      (
+        prismaService.lobbyJoinRequest.findMany as jest.Mock
+      ).mockResolvedValueOnce([
+        {
+          id: 'request1',
+          userId: 'requester1',
+          lobbyId: 'lobby1',
+          lobby: { ownerId: 'user1' },
+        },
+      ]);
+      (
+        prismaService.lobbyJoinRequest.updateMany as jest.Mock
+      ).mockResolvedValueOnce({ count: 0 });
+
+      const expired = await service.expireStaleJoinRequests();
+
+      expect(expired).toBe(0);
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyUserRequestUpdate).not.toHaveBeenCalled();
+      expect(lobbyGateway.notifyRequestExpired).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when no request is stale', async () => {
+      (
+        prismaService.lobbyJoinRequest.findMany as jest.Mock
+      ).mockResolvedValueOnce([]);
+
+      const expired = await service.expireStaleJoinRequests();
+
+      expect(expired).toBe(0);
+      expect(prismaService.lobbyJoinRequest.updateMany).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
+
+  //#region request history
+  describe('getRequestHistory', () => {
+    it('should return a filtered page of the lobby request history', async () => {
+      const decided = {
+        ...mockJoinRequest,
+        status: RequestStatus.APPROVED,
+        decidedAt: new Date(),
+        decidedById: 'user1',
+      };
+      (
+        prismaService.lobbyJoinRequest.findMany as jest.Mock
+      ).mockResolvedValueOnce([decided, { ...decided, id: 'request2' }]);
+
+      const result = await service.getRequestHistory('lobby1', mockUser, {
+        status: RequestStatus.APPROVED,
+        limit: 1,
+      });
+
+      expect(result).toEqual({ items: [decided], nextCursor: 'request1' });
+      expect(prismaService.lobbyJoinRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { lobbyId: 'lobby1', status: RequestStatus.APPROVED },
+          take: 2,
+        }),
+      );
+    });
+
+    it('should throw if user is not the owner', async () => {
+      await expect(
+        service.getRequestHistory('other-lobby', mockUser, {}),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('getMyRequests', () => {
+    it("should return the applicant's own requests", async () => {
+      const result = await service.getMyRequests(mockUser, {});
+
+      expect(result).toEqual({ items: [mockJoinRequest], nextCursor: null });
+      expect(prismaService.lobbyJoinRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user1' } }),
+      );
+    });
+  });
+  //#endregion
+
+  //#region getAuditLog
+  describe('getAuditLog', () => {
+    it('should return the audit log to the owner', async () => {
+      const page = { items: [], nextCursor: null };
+      auditService.getLobbyAuditLog.mockResolvedValueOnce(page);
+      const query = { action: LobbyAuditAction.MEMBER_KICKED };
+
+      const result = await service.getAuditLog('lobby1', mockUser, query);
+
+      expect(result).toEqual(page);
+      expect(auditService.getLobbyAuditLog).toHaveBeenCalledWith(
+        'lobby1',
+        query,
+      );
+    });
+
+    it('should throw if user is neither owner nor admin', async () => {
+      await expect(
+        service.getAuditLog('other-lobby', mockUser, {}),
+      ).rejects.toThrow(ForbiddenException);
+      expect(auditService.getLobbyAuditLog).not.toHaveBeenCalled();
+    });
+  });
+  //#endregion
 });
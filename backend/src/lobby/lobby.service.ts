@@ -7,12 +7,77 @@ import {
   forwardRef,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { CreateLobbyDto } from './dto/create-lobby.dto';
-import { LobbyVisibility, UserRole } from '@prisma/client';
+import {
+  Lobby,
+  LobbyAuditAction,
+  LobbyJoinPolicy,
+  LobbyVisibility,
+  NotificationType,
+  Prisma,
+  RequestStatus,
+  UserRole,
+} from '@prisma/client';
 import { UsersService } from 'src/users/users.service';
 import { UserWithLobbyRelations } from 'src/users/types/user.types';
 import { LobbyGateway } from './lobby.gateway';
+import { ListLobbiesQueryDto, LobbySort } from './dto/list-lobbies-query.dto';
+import { UpdateLobbyDto } from './dto/update-lobby.dto';
+import { DisbandGamesAction } from './dto/disband-lobby.dto';
+import { CreateLobbyInviteDto } from './dto/create-lobby-invite.dto';
+import { JoinRequestHistoryQueryDto } from './dto/join-request-history-query.dto';
+import { CreateJoinRequestDto } from './dto/create-join-request.dto';
+import { BanDetailsDto, BanUserDto } from './dto/ban-user.dto';
+import { RemoveMemberDto } from './dto/remove-member.dto';
+import { AuditService } from 'src/audit/audit.service';
+import { AuditLogQueryDto } from 'src/audit/dto/audit-log-query.dto';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { LobbyWaitlistService } from './lobby-waitlist.service';
+import { RedisProvider } from 'src/redis/redis.provider';
+import {
+  ApplicationAnswer,
+  JoinRequestApplication,
+  LobbySummary,
+  PaginatedResult,
+} from './types/lobby.types';
+import {
+  DEFAULT_JOIN_REQUEST_COOLDOWN_HOURS,
+  DEFAULT_JOIN_REQUEST_MAX_AGE_HOURS,
+  JOIN_PASSWORD_LOCKOUT_SECONDS,
+  JOIN_PASSWORD_SALT_ROUNDS,
+  MAX_JOIN_PASSWORD_ATTEMPTS,
+} from './lobby.constants';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+
+/** Default page size for the public lobby listing. */
+const DEFAULT_LOBBY_PAGE_SIZE = 20;
+
+/** Default page size for join request history views. */
+const DEFAULT_REQUEST_PAGE_SIZE = 20;
+
+/** Member fields exposed in lobby detail responses, including each member's role. */
+const LOBBY_MEMBER_SELECT = {
+  id: true,
+  username: true,
+  avatar: true,
+  steamId: true,
+  role: true,
+  lobbyJoinedAt: true,
+} satisfies Prisma.UserSelect;
+
+/** Update detaching a user from their lobby, whichever way they left it. */
+const FORMER_MEMBER_DATA = {
+  lobbyId: null,
+  lobbyJoinedAt: null,
+  role: UserRole.MEMBER,
+} satisfies Prisma.UserUncheckedUpdateManyInput;
+
+/** Number of random bytes used for invite codes (8 base64url characters). */
+const INVITE_CODE_BYTES = 6;
 
 /**
  * Service responsible for managing lobby-related operations including
@@ -27,6 +92,11 @@ export class LobbyService {
     private readonly usersService: UsersService,
     @Inject(forwardRef(() => LobbyGateway))
     private readonly lobbyGateway: LobbyGateway,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
+    private readonly notificationsService: NotificationsService,
+    private readonly waitlistService: LobbyWaitlistService,
+    private readonly redisProvider: RedisProvider,
   ) {}
 
   /**
@@ -81,6 +151,41 @@ export class LobbyService {
     }
   }
 
+  /**
+   * Finds the pending join request of a user for a lobby.
+   * @param userId The applicant's ID.
+   * @param lobbyId The lobby ID.
+   * @returns The pending request, or null if there is none.
+   */
+  private findPendingRequest(userId: string, lobbyId: string) {
+    return this.prismaService.lobbyJoinRequest.findFirst({
+      where: { userId, lobbyId, status: RequestStatus.PENDING },
+    });
+  }
+
+  /**
+   * Returns the configured re-request cooldown after a rejection, in milliseconds.
+   */
+  private getJoinRequestCooldownMs(): number {
+    const hours =
+      this.configService.get<number>('JOIN_REQUEST_COOLDOWN_HOURS') ??
+      DEFAULT_JOIN_REQUEST_COOLDOWN_HOURS;
+
+    return Number(hours) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Reads how long a join request may stay pending before it expires.
+   * @returns The maximum pending age in milliseconds.
+   */
+  private getJoinRequestMaxAgeMs(): number {
+    const hours =
+      this.configService.get<number>('JOIN_REQUEST_MAX_AGE_HOURS') ??
+      DEFAULT_JOIN_REQUEST_MAX_AGE_HOURS;
+
+    return Number(hours) * 60 * 60 * 1000;
+  }
+
   /**
    * Creates a new lobby and assigns the user as owner and member.
    * @param dto Lobby creation details.
@@ -117,10 +222,20 @@ export class LobbyService {
           role: 'OWNER',
           lobby: { connect: { id: newLobby.id } },
           lobbyId: newLobby.id,
+          lobbyJoinedAt: new Date(),
         },
       });
 
-      if (this.lobbyGateway.isUserConnected(user.id)) {
+      await this.auditService.record({
+        lobbyId: newLobby.id,
+        action: LobbyAuditAction.LOBBY_CREATED,
+        actorId: user.id,
+        payload: { name: newLobby.name, visibility: newLobby.visibility },
+      });
+
+      void this.lobbyGateway.joinLobbyRoom(user.id, newLobby.id);
+
+      if (await this.lobbyGateway.isUserConnected(user.id)) {
         void this.lobbyGateway.notifyNewMember(
           newLobby.id,
           user.id,
@@ -135,40 +250,51 @@ export class LobbyService {
   }
 
   /**
-   * Creates a join request for a lobby.
+   * Asks to join a lobby according to its join policy. OPEN lobbies admit
+   * the user right away, PASSWORD lobbies do so once the passphrase matches,
+   * INVITE_ONLY lobbies refuse and APPROVAL lobbies store a pending request
+   * for the owner to decide on.
    * @param lobbyId The target lobby's ID.
    * @param user The user sending the join request.
-   * @returns A confirmation message.
-   * @throws BadRequestException if the user already requested to join.
+   * @param dto Optional message, answers to the lobby's application questions
+   * and the passphrase of a PASSWORD lobby.
+   * @returns A confirmation message, with the lobby ID when the user joined
+   * and their waitlist position when the lobby was full.
+   * @throws BadRequestException if the user already requested to join,
+   * is still in the cooldown following a rejection or did not answer
+   * every application question.
+   * @throws ForbiddenException if the user is banned from the lobby, the lobby
+   * is invite-only or the passphrase is wrong.
    */
-  async createJoinRequest(lobbyId: string, user: UserWithLobbyRelations) {
+  async createJoinRequest(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    dto: CreateJoinRequestDto = {},
+  ) {
     try {
-      const existingAnyRequest =
-        await this.prismaService.lobbyJoinRequest.findFirst({
-          where: { userId: user.id },
-        });
-
-      if (existingAnyRequest) {
-        throw new BadRequestException(
-          'You already have a pending request to another lobby',
-        );
-      }
-
       const lobby = await this.getLobbyById(lobbyId);
 
       if (user.memberLobby) {
         throw new BadRequestException('You are already a member of a lobby');
       }
 
-      const existingRequest =
-        await this.prismaService.lobbyJoinRequest.findUnique({
-          where: {
-            userId_lobbyId: {
-              userId: user.id,
-              lobbyId: lobby.id,
-            },
-          },
-        });
+      await this.assertNotBanned(lobby.id, user.id);
+
+      switch (lobby.joinPolicy) {
+        case LobbyJoinPolicy.INVITE_ONLY:
+          throw new ForbiddenException(
+            'This lobby can only be joined with an invite',
+          );
+        case LobbyJoinPolicy.PASSWORD:
+          await this.assertJoinPassword(lobby.id, user.id, dto.password);
+          return await this.admitMember(lobby, user);
+        case LobbyJoinPolicy.OPEN:
+          return await this.admitMember(lobby, user);
+      }
+
+      await this.waitlistService.assertNotWaiting(user.id);
+
+      const existingRequest = await this.findPendingRequest(user.id, lobby.id);
 
       if (existingRequest) {
         throw new BadRequestException(
@@ -176,18 +302,53 @@ export class LobbyService {
         );
       }
 
+      const lastRejection = await this.prismaService.lobbyJoinRequest.findFirst(
+        {
+          where: {
+            userId: user.id,
+            lobbyId: lobby.id,
+            status: RequestStatus.REJECTED,
+          },
+          orderBy: { decidedAt: 'desc' },
+        },
+      );
+
+      const cooldownEndsAt = lastRejection?.decidedAt
+        ? new Date(
+            lastRejection.decidedAt.getTime() + this.getJoinRequestCooldownMs(),
+          )
+        : null;
+
+      if (cooldownEndsAt && cooldownEndsAt > new Date()) {
+        throw new BadRequestException(
+          `Your last request was rejected. You can request to join again after ${cooldownEndsAt.toISOString()}`,
+        );
+      }
+
+      const application: JoinRequestApplication = {
+        message: dto.message?.trim() || null,
+        answers: this.getApplicationAnswers(
+          lobby.applicationQuestions,
+          dto.answers,
+        ),
+      };
+
       await this.prismaService.lobbyJoinRequest.create({
         data: {
           userId: user.id,
           lobbyId: lobby.id,
+          message: application.message,
+          answers: application.answers,
         },
       });
 
-      if (this.lobbyGateway.isUserConnected(lobby.ownerId)) {
+      if (await this.lobbyGateway.isUserConnected(lobby.ownerId)) {
         void this.lobbyGateway.notifyNewRequest(
           lobby.id,
+          lobby.ownerId,
           user.id,
           user.username || 'Anonymous',
+          application,
         );
       }
 
@@ -200,7 +361,174 @@ export class LobbyService {
   }
 
   /**
-   * Cancels a user's pending join request.
+   * Checks a passphrase against the hash stored for a PASSWORD lobby.
+   * Wrong passphrases are counted per user and lobby in Redis, shared by
+   * every instance, and the user is locked out after too many of them.
+   * @param lobbyId The lobby ID.
+   * @param userId The ID of the user trying to join.
+   * @param password The passphrase given by the user.
+   * @throws ForbiddenException if the passphrase is missing or wrong, or the
+   * user is locked out.
+   */
+  private async assertJoinPassword(
+    lobbyId: string,
+    userId: string,
+    password?: string,
+  ) {
+    if (!password) {
+      throw new ForbiddenException('This lobby requires a password');
+    }
+
+    const client = this.redisProvider.getClient();
+    const attemptsKey = `lobby:${lobbyId}:password-attempts:${userId}`;
+    const attempts = Number(await client.get(attemptsKey));
+
+    if (attempts >= MAX_JOIN_PASSWORD_ATTEMPTS) {
+      const lockedForSeconds = await client.ttl(attemptsKey);
+      throw new ForbiddenException(
+        `Too many incorrect passwords. You can try again in ${Math.ceil(
+          Math.max(lockedForSeconds, 1) / 60,
+        )} minute(s)`,
+      );
+    }
+
+    const lobby = await this.prismaService.lobby.findUnique({
+      where: { id: lobbyId },
+      select: { joinPasswordHash: true },
+    });
+
+    if (
+      !lobby?.joinPasswordHash ||
+      !(await bcrypt.compare(password, lobby.joinPasswordHash))
+    ) {
+      if ((await client.incr(attemptsKey)) === 1) {
+        await client.expire(attemptsKey, JOIN_PASSWORD_LOCKOUT_SECONDS);
+      }
+      throw new ForbiddenException('Incorrect lobby password');
+    }
+
+    await client.del(attemptsKey);
+  }
+
+  /**
+   * Adds a user to a lobby without owner approval, as OPEN and PASSWORD
+   * lobbies do. The join is audited and the owner notified, as they would
+   * be for an approval. Any join request the user had pending elsewhere is
+   * superseded. When the lobby is full the user is put on its waitlist
+   * instead.
+   * @param lobby The lobby with its members.
+   * @param user The joining user.
+   * @returns A confirmation message with the lobby ID, and the waitlist
+   * position if the user could not join yet.
+   */
+  private async admitMember(
+    lobby: Lobby & { members: unknown[] },
+    user: UserWithLobbyRelations,
+  ) {
+    const hasOpenSlot = await this.waitlistService.hasOpenSlot(
+      lobby.id,
+      lobby.capacity,
+      lobby.members.length,
+    );
+
+    if (!hasOpenSlot) {
+      const position = await this.waitlistService.enqueue(lobby.id, user.id);
+
+      return {
+        message: 'The lobby is full, you have been added to its waitlist',
+        lobbyId: lobby.id,
+        position,
+      };
+    }
+
+    // Another join may have taken the last seat since the check above
+    const superseded = await this.prismaService.$transaction(async (tx) => {
+      await this.waitlistService.claimSeat(tx, lobby.id, lobby.capacity);
+
+      const joined = await tx.user.updateMany({
+        where: { id: user.id, lobbyId: null },
+        data: { lobbyId: lobby.id, lobbyJoinedAt: new Date() },
+      });
+      if (joined.count === 0) {
+        throw new BadRequestException('You are already a member of a lobby');
+      }
+
+      return this.supersedeOpenRequests(tx, user.id);
+    });
+
+    await this.releaseSupersededRequests(superseded, user.id);
+    await this.announceMemberJoined(lobby, user, {
+      joinPolicy: lobby.joinPolicy,
+    });
+
+    return { message: 'You have joined the lobby', lobbyId: lobby.id };
+  }
+
+  /**
+   * Records a user who joined a lobby on their own, through its join policy
+   * or an invite, notifies the owner and adds the user to the lobby room.
+   * @param lobby The joined lobby.
+   * @param user The new member.
+   * @param payload How the user got in, stored with the audit entry.
+   */
+  private async announceMemberJoined(
+    lobby: Lobby,
+    user: UserWithLobbyRelations,
+    payload: Prisma.InputJsonObject,
+  ): Promise<void> {
+    await this.auditService.record({
+      lobbyId: lobby.id,
+      action: LobbyAuditAction.MEMBER_JOINED,
+      actorId: user.id,
+      targetUserId: user.id,
+      payload,
+    });
+
+    await this.notificationsService.notify(lobby.ownerId, {
+      type: NotificationType.MEMBER_JOINED,
+      lobbyId: lobby.id,
+      payload: { userId: user.id },
+    });
+
+    void this.lobbyGateway.joinLobbyRoom(user.id, lobby.id);
+    void this.lobbyGateway.notifyNewMember(
+      lobby.id,
+      user.id,
+      user.username || 'Anonymous',
+    );
+  }
+
+  /**
+   * Pairs an applicant's answers with the lobby's application questions.
+   * @param questions The lobby's application questions.
+   * @param answers The applicant's answers, in question order.
+   * @returns The answered questions.
+   * @throws BadRequestException if an answer is missing or extra answers were given.
+   */
+  private getApplicationAnswers(
+    questions: string[],
+    answers: string[] = [],
+  ): ApplicationAnswer[] {
+    if (answers.length !== questions.length) {
+      throw new BadRequestException(
+        `Expected ${questions.length} application answer(s), received ${answers.length}`,
+      );
+    }
+
+    return questions.map((question, index) => {
+      const answer = answers[index].trim();
+
+      if (!answer) {
+        throw new BadRequestException(`Please answer: "${question}"`);
+      }
+
+      return { question, answer };
+    });
+  }
+
+  /**
+   * Cancels a user's pending join request. The request is kept as history
+   * with a CANCELLED status.
    * @param lobbyId The ID of the lobby.
    * @param user The user cancelling their request.
    * @returns A confirmation message.
@@ -209,16 +537,18 @@ export class LobbyService {
     try {
       const lobby = await this.getLobbyById(lobbyId);
 
-      await this.prismaService.lobbyJoinRequest.delete({
-        where: {
-          userId_lobbyId: {
-            userId: user.id,
-            lobbyId: lobby.id,
-          },
-        },
+      const request = await this.findPendingRequest(user.id, lobby.id);
+
+      if (!request) {
+        throw new NotFoundException('Join request not found');
+      }
+
+      await this.prismaService.lobbyJoinRequest.update({
+        where: { id: request.id },
+        data: { status: RequestStatus.CANCELLED, decidedAt: new Date() },
       });
 
-      if (this.lobbyGateway.isUserConnected(lobby.ownerId)) {
+      if (await this.lobbyGateway.isUserConnected(lobby.ownerId)) {
         void this.lobbyGateway.notifyRequestCancelled(lobby.id, user.id);
       }
 
@@ -229,11 +559,13 @@ export class LobbyService {
   }
 
   /**
-   * Approves a pending join request.
+   * Approves a pending join request. The request is kept as history with
+   * an APPROVED status. If the lobby is full, the applicant is put on its
+   * waitlist and the request is marked WAITLISTED instead.
    * @param lobbyId The lobby ID.
    * @param userId The user to approve.
    * @param owner The lobby owner performing the approval.
-   * @returns A success message.
+   * @returns A success message, with the waitlist position if the lobby is full.
    */
   async approveJoinRequest(
     lobbyId: string,
@@ -249,18 +581,7 @@ export class LobbyService {
         );
       }
 
-      if (lobby.members.length >= lobby.capacity) {
-        throw new BadRequestException('Lobby has reached maximum capacity');
-      }
-
-      const request = await this.prismaService.lobbyJoinRequest.findUnique({
-        where: {
-          userId_lobbyId: {
-            userId,
-            lobbyId,
-          },
-        },
-      });
+      const request = await this.findPendingRequest(userId, lobbyId);
 
       if (!request) {
         throw new NotFoundException('Join request not found');
@@ -274,22 +595,72 @@ export class LobbyService {
         throw new BadRequestException('User is already in a lobby');
       }
 
+      const hasOpenSlot = await this.waitlistService.hasOpenSlot(
+        lobbyId,
+        lobby.capacity,
+        lobby.members.length,
+      );
+
+      if (!hasOpenSlot) {
+        const position = await this.waitlistService.enqueue(
+          lobbyId,
+          userId,
+          owner.id,
+        );
+
+        await this.auditService.record({
+          lobbyId,
+          action: LobbyAuditAction.REQUEST_APPROVED,
+          actorId: owner.id,
+          targetUserId: userId,
+          payload: { requestId: request.id, waitlistPosition: position },
+        });
+
+        if (await this.lobbyGateway.isUserConnected(userId)) {
+          void this.lobbyGateway.notifyUserRequestUpdate(
+            userId,
+            lobbyId,
+            'waitlisted',
+          );
+        }
+
+        return {
+          message: 'The lobby is full, the user has been added to its waitlist',
+          position,
+        };
+      }
+
       await this.prismaService.$transaction([
         this.prismaService.user.update({
           where: { id: userId },
-          data: { lobbyId },
+          data: { lobbyId, lobbyJoinedAt: new Date() },
         }),
-        this.prismaService.lobbyJoinRequest.delete({
-          where: {
-            userId_lobbyId: {
-              userId,
-              lobbyId,
-            },
+        this.prismaService.lobbyJoinRequest.update({
+          where: { id: request.id },
+          data: {
+            status: RequestStatus.APPROVED,
+            decidedAt: new Date(),
+            decidedById: owner.id,
           },
         }),
       ]);
 
-      if (this.lobbyGateway.isUserConnected(userId)) {
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.REQUEST_APPROVED,
+        actorId: owner.id,
+        targetUserId: userId,
+        payload: { requestId: request.id },
+      });
+
+      void this.lobbyGateway.joinLobbyRoom(userId, lobbyId);
+
+      await this.notificationsService.notify(userId, {
+        type: NotificationType.REQUEST_ACCEPTED,
+        lobbyId,
+      });
+
+      if (await this.lobbyGateway.isUserConnected(userId)) {
         void this.lobbyGateway.notifyUserRequestUpdate(
           userId,
           lobbyId,
@@ -309,7 +680,8 @@ export class LobbyService {
   }
 
   /**
-   * Rejects a join request to the lobby.
+   * Rejects a join request to the lobby. The request is kept as history with
+   * a REJECTED status, which starts the re-request cooldown.
    * @param lobbyId The lobby ID.
    * @param userId The user whose request is rejected.
    * @param owner The lobby owner performing the rejection.
@@ -327,29 +699,35 @@ export class LobbyService {
         throw new ForbiddenException('Only the owner can reject join requests');
       }
 
-      const request = await this.prismaService.lobbyJoinRequest.findUnique({
-        where: {
-          userId_lobbyId: {
-            userId,
-            lobbyId,
-          },
-        },
-      });
+      const request = await this.findPendingRequest(userId, lobbyId);
 
       if (!request) {
         throw new NotFoundException('Join request not found');
       }
 
-      await this.prismaService.lobbyJoinRequest.delete({
-        where: {
-          userId_lobbyId: {
-            userId,
-            lobbyId,
-          },
+      await this.prismaService.lobbyJoinRequest.update({
+        where: { id: request.id },
+        data: {
+          status: RequestStatus.REJECTED,
+          decidedAt: new Date(),
+          decidedById: owner.id,
         },
       });
 
-      if (this.lobbyGateway.isUserConnected(userId)) {
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.REQUEST_REJECTED,
+        actorId: owner.id,
+        targetUserId: userId,
+        payload: { requestId: request.id },
+      });
+
+      await this.notificationsService.notify(userId, {
+        type: NotificationType.REQUEST_REJECTED,
+        lobbyId,
+      });
+
+      if (await this.lobbyGateway.isUserConnected(userId)) {
         void this.lobbyGateway.notifyUserRequestUpdate(
           userId,
           lobbyId,
@@ -363,6 +741,83 @@ export class LobbyService {
     }
   }
 
+  /**
+   * Expires join requests that have been pending for longer than the
+   * configured maximum age, freeing their applicants to apply elsewhere.
+   * Runs on a schedule; the applicant and the lobby owner are notified.
+   * @returns The number of expired requests.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'expire-join-requests' })
+  async expireStaleJoinRequests(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - this.getJoinRequestMaxAgeMs());
+
+      const staleRequests = await this.prismaService.lobbyJoinRequest.findMany({
+        where: { status: RequestStatus.PENDING, createdAt: { lt: cutoff } },
+        select: {
+          id: true,
+          userId: true,
+          lobbyId: true,
+          lobby: { select: { ownerId: true } },
+        },
+      });
+
+      let expired = 0;
+
+      for (const request of staleRequests) {
+        // Re-check the status so requests decided since the lookup are left
+        // alone, and nobody is told about an expiry that did not happen
+        const { count } = await this.prismaService.lobbyJoinRequest.updateMany({
+          where: { id: request.id, status: RequestStatus.PENDING },
+          data: { status: RequestStatus.EXPIRED, decidedAt: new Date() },
+        });
+        if (count === 0) {
+          continue;
+        }
+        expired++;
+
+        await this.notificationsService.notify(request.userId, {
+          type: NotificationType.REQUEST_EXPIRED,
+          lobbyId: request.lobbyId,
+        });
+        await this.notificationsService.notify(request.lobby.ownerId, {
+          type: NotificationType.JOIN_REQUEST_EXPIRED,
+          lobbyId: request.lobbyId,
+          payload: { userId: request.userId },
+        });
+
+        if (await this.lobbyGateway.isUserConnected(request.userId)) {
+          void this.lobbyGateway.notifyUserRequestUpdate(
+            request.userId,
+            request.lobbyId,
+            'expired',
+          );
+        }
+        if (await this.lobbyGateway.isUserConnected(request.lobby.ownerId)) {
+          void this.lobbyGateway.notifyRequestExpired(
+            request.lobbyId,
+            request.lobby.ownerId,
+            request.userId,
+          );
+        }
+      }
+
+      if (expired) {
+        this.logger.log(`Expired ${expired} stale join request(s)`);
+      }
+
+      return expired;
+    } catch (error) {
+      // Scheduled jobs have no caller to report to, so log instead of throwing
+      this.logger.error(
+        `Unexpected error during "expire join requests": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+      return 0;
+    }
+  }
+
   /**
    * Retrieves all pending join requests for a lobby.
    * @param lobbyId The lobby ID.
@@ -380,7 +835,7 @@ export class LobbyService {
       }
 
       return this.prismaService.lobbyJoinRequest.findMany({
-        where: { lobbyId },
+        where: { lobbyId, status: RequestStatus.PENDING },
         include: {
           user: {
             select: {
@@ -397,6 +852,98 @@ export class LobbyService {
     }
   }
 
+  /**
+   * Retrieves the join request history of a lobby, newest first.
+   * @param lobbyId The lobby ID.
+   * @param user The lobby owner.
+   * @param query Optional status filter and pagination cursor.
+   * @returns A page of join requests with applicant and decider info.
+   */
+  async getRequestHistory(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    query: JoinRequestHistoryQueryDto,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== user.id) {
+        throw new ForbiddenException(
+          'Only the owner can view the request history',
+        );
+      }
+
+      return await this.paginateJoinRequests(
+        { lobbyId, ...(query.status && { status: query.status }) },
+        query,
+        {
+          user: {
+            select: { id: true, username: true, avatar: true, steamId: true },
+          },
+          decidedBy: { select: { id: true, username: true } },
+        },
+      );
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve request history');
+    }
+  }
+
+  /**
+   * Retrieves the join requests sent by the current user, newest first.
+   * @param user The applicant.
+   * @param query Optional status filter and pagination cursor.
+   * @returns A page of the user's join requests with lobby info.
+   */
+  async getMyRequests(
+    user: UserWithLobbyRelations,
+    query: JoinRequestHistoryQueryDto,
+  ) {
+    try {
+      return await this.paginateJoinRequests(
+        { userId: user.id, ...(query.status && { status: query.status }) },
+        query,
+        {
+          lobby: { select: { id: true, name: true, imageUrl: true } },
+        },
+      );
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve your requests');
+    }
+  }
+
+  /**
+   * Runs a cursor-paginated join request query ordered by creation date.
+   * @param where Request filter.
+   * @param query Pagination cursor and page size.
+   * @param include Relations to include on each request.
+   * @returns A page of join requests and the cursor for the next page.
+   */
+  private async paginateJoinRequests<T extends Prisma.LobbyJoinRequestInclude>(
+    where: Prisma.LobbyJoinRequestWhereInput,
+    query: JoinRequestHistoryQueryDto,
+    include: T,
+  ): Promise<
+    PaginatedResult<Prisma.LobbyJoinRequestGetPayload<{ include: T }>>
+  > {
+    const limit = query.limit ?? DEFAULT_REQUEST_PAGE_SIZE;
+
+    const requests = (await this.prismaService.lobbyJoinRequest.findMany({
+      where,
+      include,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    })) as Prisma.LobbyJoinRequestGetPayload<{ include: T }>[];
+
+    const hasMore = requests.length > limit;
+    const items = hasMore ? requests.slice(0, limit) : requests;
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
   /**
    * Retrieves the lobby that the user is a member of.
    * @param user The current user.
@@ -411,7 +958,7 @@ export class LobbyService {
       const lobby = await this.prismaService.lobby.findUnique({
         where: { id: user.memberLobby.id },
         include: {
-          members: true,
+          members: { select: LOBBY_MEMBER_SELECT },
           owner: true,
           games: true,
         },
@@ -429,9 +976,14 @@ export class LobbyService {
 
   /**
    * Retrieves details about a specific lobby based on visibility and membership.
+   * The join policy is included so clients know how the lobby can be joined,
+   * while the passphrase hash of PASSWORD lobbies is never loaded.
+   * Non-members of INVITE_ONLY lobbies only get the lobby's summary, since
+   * its members and games are for those who were invited.
    * @param lobbyId The ID of the lobby.
    * @param user The requesting user.
-   * @returns The lobby object.
+   * @returns The lobby object, or its summary for outsiders of an
+   * invite-only lobby.
    */
   async getLobby(lobbyId: string, user: UserWithLobbyRelations) {
     try {
@@ -439,7 +991,7 @@ export class LobbyService {
         where: { id: lobbyId },
         include: {
           owner: true,
-          members: true,
+          members: { select: LOBBY_MEMBER_SELECT },
           games: true,
         },
       });
@@ -454,6 +1006,13 @@ export class LobbyService {
         );
       }
 
+      if (
+        lobby.joinPolicy === LobbyJoinPolicy.INVITE_ONLY &&
+        user.memberLobby?.id !== lobbyId
+      ) {
+        return this.toLobbySummary(lobby);
+      }
+
       return lobby;
     } catch (error) {
       this.handleServiceError(error, 'retrieve lobby');
@@ -461,34 +1020,197 @@ export class LobbyService {
   }
 
   /**
-   * Updates the visibility status of a lobby.
-   * @param id The lobby ID.
-   * @param user The lobby owner.
-   * @param visibility New visibility status.
-   * @returns The updated lobby object.
+   * Reduces a lobby to the summary shown to users who are not members.
+   * @param lobby The lobby with its members and games.
+   * @returns The lobby summary.
    */
-  async updateLobbyVisibility(
-    id: string,
-    user: UserWithLobbyRelations,
-    visibility: LobbyVisibility,
-  ) {
+  private toLobbySummary(
+    lobby: Lobby & { members: unknown[]; games: unknown[] },
+  ): LobbySummary {
+    return {
+      id: lobby.id,
+      name: lobby.name,
+      description: lobby.description,
+      imageUrl: lobby.imageUrl,
+      visibility: lobby.visibility,
+      joinPolicy: lobby.joinPolicy,
+      capacity: lobby.capacity,
+      memberCount: lobby.members.length,
+      gameCount: lobby.games.length,
+      freeSlots: Math.max(lobby.capacity - lobby.members.length, 0),
+      createdAt: lobby.createdAt,
+    };
+  }
+
+  /**
+   * Lists public lobbies with optional text search, member/capacity filters,
+   * sorting and cursor pagination.
+   * @param query Listing filters, sort option and pagination cursor.
+   * @returns A page of lobby summaries and the cursor for the next page.
+   * @throws BadRequestException if the member range is invalid.
+   */
+  async listPublicLobbies(
+    query: ListLobbiesQueryDto,
+  ): Promise<PaginatedResult<LobbySummary>> {
     try {
-      const lobby = await this.prismaService.lobby.findUnique({
-        where: { id },
-      });
+      const limit = query.limit ?? DEFAULT_LOBBY_PAGE_SIZE;
 
-      if (!lobby) {
-        throw new NotFoundException('Lobby not found');
+      if (
+        query.minMembers !== undefined &&
+        query.maxMembers !== undefined &&
+        query.minMembers > query.maxMembers
+      ) {
+        throw new BadRequestException(
+          'minMembers cannot be greater than maxMembers',
+        );
       }
 
-      if (lobby.ownerId !== user.id) {
-        throw new ForbiddenException('Only the owner can update visibility');
+      const where: Prisma.LobbyWhereInput = {
+        visibility: LobbyVisibility.PUBLIC,
+      };
+
+      if (query.search) {
+        where.OR = [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { description: { contains: query.search, mode: 'insensitive' } },
+        ];
       }
 
-      const updatedLobby = await this.prismaService.lobby.update({
-        where: { id },
-        data: { visibility },
-      });
+      const matchingIds = await this.findLobbyIdsByMemberCount(query);
+      if (matchingIds) {
+        where.id = { in: matchingIds };
+      }
+
+      const lobbies = await this.prismaService.lobby.findMany({
+        where,
+        orderBy: this.getLobbySortOrder(query.sort),
+        take: limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          imageUrl: true,
+          visibility: true,
+          joinPolicy: true,
+          capacity: true,
+          createdAt: true,
+          _count: { select: { members: true, games: true } },
+        },
+      });
+
+      const hasMore = lobbies.length > limit;
+      const page = hasMore ? lobbies.slice(0, limit) : lobbies;
+
+      return {
+        items: page.map(({ _count, ...lobby }) => ({
+          ...lobby,
+          memberCount: _count.members,
+          gameCount: _count.games,
+          freeSlots: Math.max(lobby.capacity - _count.members, 0),
+        })),
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      };
+    } catch (error) {
+      this.handleServiceError(error, 'list lobbies');
+    }
+  }
+
+  /**
+   * Resolves public lobby IDs matching member-count and free-capacity filters.
+   * Relation counts cannot be filtered through the Prisma query API, so this
+   * runs an aggregate query instead.
+   * @param query Listing filters.
+   * @returns Matching lobby IDs, or null when no count filter is set.
+   */
+  private async findLobbyIdsByMemberCount(
+    query: ListLobbiesQueryDto,
+  ): Promise<string[] | null> {
+    const conditions: Prisma.Sql[] = [];
+
+    if (query.minMembers !== undefined) {
+      conditions.push(Prisma.sql`COUNT(u."id") >= ${query.minMembers}`);
+    }
+    if (query.maxMembers !== undefined) {
+      conditions.push(Prisma.sql`COUNT(u."id") <= ${query.maxMembers}`);
+    }
+    if (query.minFreeSlots !== undefined) {
+      conditions.push(
+        Prisma.sql`l."capacity" - COUNT(u."id") >= ${query.minFreeSlots}`,
+      );
+    }
+
+    if (!conditions.length) {
+      return null;
+    }
+
+    const rows = await this.prismaService.$queryRaw<{ id: string }[]>`
+      SELECT l."id"
+      FROM "Lobby" l
+      LEFT JOIN "User" u ON u."lobbyId" = l."id"
+      WHERE l."visibility" = 'PUBLIC'
+      GROUP BY l."id"
+      HAVING ${Prisma.join(conditions, ' AND ')}
+    `;
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Maps a listing sort option to a Prisma ordering. The lobby ID is always
+   * appended as a tie-breaker so cursor pagination stays stable.
+   * @param sort The requested sort option.
+   * @returns Prisma orderBy clauses.
+   */
+  private getLobbySortOrder(
+    sort: LobbySort = LobbySort.NEWEST,
+  ): Prisma.LobbyOrderByWithRelationInput[] {
+    switch (sort) {
+      case LobbySort.MOST_ACTIVE:
+        return [{ games: { _count: 'desc' } }, { id: 'asc' }];
+      case LobbySort.MOST_MEMBERS:
+        return [{ members: { _count: 'desc' } }, { id: 'asc' }];
+      default:
+        return [{ createdAt: 'desc' }, { id: 'asc' }];
+    }
+  }
+
+  /**
+   * Updates the visibility status of a lobby.
+   * @param id The lobby ID.
+   * @param user The lobby owner.
+   * @param visibility New visibility status.
+   * @returns The updated lobby object.
+   */
+  async updateLobbyVisibility(
+    id: string,
+    user: UserWithLobbyRelations,
+    visibility: LobbyVisibility,
+  ) {
+    try {
+      const lobby = await this.prismaService.lobby.findUnique({
+        where: { id },
+      });
+
+      if (!lobby) {
+        throw new NotFoundException('Lobby not found');
+      }
+
+      if (lobby.ownerId !== user.id) {
+        throw new ForbiddenException('Only the owner can update visibility');
+      }
+
+      const updatedLobby = await this.prismaService.lobby.update({
+        where: { id },
+        data: { visibility },
+      });
+
+      await this.auditService.record({
+        lobbyId: id,
+        action: LobbyAuditAction.VISIBILITY_CHANGED,
+        actorId: user.id,
+        payload: { from: lobby.visibility, to: updatedLobby.visibility },
+      });
 
       void this.lobbyGateway.notifyVisibilityChange(
         updatedLobby.id,
@@ -501,10 +1223,188 @@ export class LobbyService {
     }
   }
 
+  /**
+   * Updates the settings of a lobby (name, description, image, capacity,
+   * application questions, join policy and waitlist auto-admission).
+   * Switching to the PASSWORD policy requires a passphrase, which is stored
+   * hashed; switching away clears it. Added capacity goes to the waitlist.
+   * @param id The lobby ID.
+   * @param user The lobby owner.
+   * @param dto The fields to update.
+   * @returns The updated lobby object.
+   * @throws BadRequestException if no fields are provided, the new capacity
+   * is lower than the current member count or the passphrase does not fit
+   * the join policy.
+   */
+  async updateLobby(
+    id: string,
+    user: UserWithLobbyRelations,
+    dto: UpdateLobbyDto,
+  ) {
+    try {
+      const lobby = await this.prismaService.lobby.findUnique({
+        where: { id },
+        include: { _count: { select: { members: true } } },
+        omit: { joinPasswordHash: false },
+      });
+
+      if (!lobby) {
+        throw new NotFoundException('Lobby not found');
+      }
+
+      if (lobby.ownerId !== user.id) {
+        throw new ForbiddenException('Only the owner can update the lobby');
+      }
+
+      const data: Prisma.LobbyUpdateInput = {
+        ...(dto.name !== undefined && { name: dto.name }),
+        ...(dto.description !== undefined && { description: dto.description }),
+        ...(dto.imageUrl !== undefined && { imageUrl: dto.imageUrl }),
+        ...(dto.capacity !== undefined && { capacity: dto.capacity }),
+        ...(dto.applicationQuestions !== undefined && {
+          applicationQuestions: dto.applicationQuestions.map((question) =>
+            question.trim(),
+          ),
+        }),
+        ...(dto.joinPolicy !== undefined && { joinPolicy: dto.joinPolicy }),
+        ...(dto.waitlistAutoAdmit !== undefined && {
+          waitlistAutoAdmit: dto.waitlistAutoAdmit,
+        }),
+      };
+
+      const joinPolicy = dto.joinPolicy ?? lobby.joinPolicy;
+
+      if (dto.joinPassword !== undefined) {
+        if (joinPolicy !== LobbyJoinPolicy.PASSWORD) {
+          throw new BadRequestException(
+            'A join password can only be set on password-protected lobbies',
+          );
+        }
+
+        data.joinPasswordHash = await bcrypt.hash(
+          dto.joinPassword,
+          JOIN_PASSWORD_SALT_ROUNDS,
+        );
+      } else if (
+        joinPolicy === LobbyJoinPolicy.PASSWORD &&
+        !lobby.joinPasswordHash
+      ) {
+        throw new BadRequestException(
+          'A join password is required for password-protected lobbies',
+        );
+      } else if (
+        joinPolicy !== LobbyJoinPolicy.PASSWORD &&
+        lobby.joinPasswordHash
+      ) {
+        data.joinPasswordHash = null;
+      }
+
+      if (!Object.keys(data).length) {
+        throw new BadRequestException('No lobby fields provided to update');
+      }
+
+      if (dto.capacity !== undefined && dto.capacity < lobby._count.members) {
+        throw new BadRequestException(
+          `Capacity cannot be lower than the current member count (${lobby._count.members})`,
+        );
+      }
+
+      const updatedLobby = await this.prismaService.lobby.update({
+        where: { id },
+        data,
+      });
+
+      if (updatedLobby.joinPolicy !== lobby.joinPolicy) {
+        await this.auditService.record({
+          lobbyId: id,
+          action: LobbyAuditAction.JOIN_POLICY_CHANGED,
+          actorId: user.id,
+          payload: { from: lobby.joinPolicy, to: updatedLobby.joinPolicy },
+        });
+      }
+
+      void this.lobbyGateway.notifyLobbyUpdated(updatedLobby.id, {
+        name: updatedLobby.name,
+        description: updatedLobby.description,
+        imageUrl: updatedLobby.imageUrl,
+        capacity: updatedLobby.capacity,
+        joinPolicy: updatedLobby.joinPolicy,
+      });
+
+      if (updatedLobby.capacity > lobby.capacity) {
+        await this.waitlistService.fillOpenSlots(id);
+      }
+
+      return updatedLobby;
+    } catch (error) {
+      this.handleServiceError(error, 'update lobby');
+    }
+  }
+
+  /**
+   * Disbands a lobby. In a single transaction every member is detached and
+   * its games are either archived or deleted, before the lobby itself is
+   * deleted. Its join requests, decided ones included, are deleted with it
+   * along with its audit log, bans and invites: request history only exists
+   * for lobbies that still exist.
+   * @param lobbyId The lobby ID.
+   * @param owner The lobby owner disbanding the lobby.
+   * @param gamesAction Whether to archive or delete the lobby's games.
+   * @returns A confirmation message.
+   */
+  async disbandLobby(
+    lobbyId: string,
+    owner: UserWithLobbyRelations,
+    gamesAction: DisbandGamesAction = DisbandGamesAction.ARCHIVE,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== owner.id) {
+        throw new ForbiddenException('Only the owner can disband the lobby');
+      }
+
+      await this.prismaService.$transaction(async (prisma) => {
+        await prisma.user.updateMany({
+          where: { lobbyId },
+          data: FORMER_MEMBER_DATA,
+        });
+
+        if (gamesAction === DisbandGamesAction.DELETE) {
+          await prisma.playerStats.deleteMany({
+            where: { lobbyGame: { lobbyId } },
+          });
+          await prisma.lobbyGame.deleteMany({ where: { lobbyId } });
+        } else {
+          await prisma.lobbyGame.updateMany({
+            where: { lobbyId },
+            data: {
+              lobbyId: null,
+              archivedAt: new Date(),
+              archivedLobbyName: lobby.name,
+            },
+          });
+        }
+
+        await prisma.lobby.delete({ where: { id: lobbyId } });
+      });
+
+      void this.lobbyGateway.notifyLobbyDisbanded(lobbyId);
+      void this.lobbyGateway.closeLobbyRoom(lobbyId);
+
+      return { message: 'Lobby has been disbanded' };
+    } catch (error) {
+      this.handleServiceError(error, 'disband lobby');
+    }
+  }
+
   /**
    * Allows a user to leave their current lobby.
+   * If the owner leaves, ownership passes to the longest-standing admin;
+   * without an admin the owner must transfer ownership or disband first.
    * @param user The user leaving the lobby.
    * @returns A confirmation message.
+   * @throws BadRequestException if the owner has no admin to hand over to.
    */
   async leaveLobby(user: UserWithLobbyRelations) {
     try {
@@ -513,16 +1413,50 @@ export class LobbyService {
       }
 
       const lobbyId = user.memberLobby.id;
-
-      await this.prismaService.user.update({
+      let newOwnerId: string | null = null;
+      const leaveOperation = this.prismaService.user.update({
         where: { id: user.id },
-        data: {
-          lobbyId: null,
-          role: UserRole.MEMBER,
-        },
+        data: FORMER_MEMBER_DATA,
+      });
+
+      if (user.memberLobby.ownerId === user.id) {
+        // The owner can only leave if an admin can take over the lobby
+        const successor = await this.prismaService.user.findFirst({
+          where: { lobbyId, role: UserRole.ADMIN },
+          orderBy: { lobbyJoinedAt: 'asc' },
+        });
+
+        if (!successor) {
+          throw new BadRequestException(
+            'Transfer ownership or disband the lobby before leaving',
+          );
+        }
+
+        await this.prismaService.$transaction([
+          ...this.getOwnershipTransferOperations(lobbyId, successor.id),
+          leaveOperation,
+        ]);
+
+        void this.lobbyGateway.notifyOwnershipTransferred(
+          lobbyId,
+          user.id,
+          successor.id,
+          successor.username || 'Anonymous',
+        );
+        newOwnerId = successor.id;
+      } else {
+        await leaveOperation;
+      }
+
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.MEMBER_LEFT,
+        actorId: user.id,
+        targetUserId: user.id,
+        payload: { role: user.role, newOwnerId },
       });
 
-      if (this.lobbyGateway.isUserConnected(user.id)) {
+      if (await this.lobbyGateway.isUserConnected(user.id)) {
         void this.lobbyGateway.notifyMemberLeft(
           lobbyId,
           user.id,
@@ -530,23 +1464,194 @@ export class LobbyService {
         );
       }
 
+      void this.lobbyGateway.leaveLobbyRoom(user.id, lobbyId);
+
+      await this.waitlistService.fillOpenSlots(lobbyId);
+
       return { message: 'You have left the lobby' };
     } catch (error) {
       this.handleServiceError(error, 'leave lobby');
     }
   }
 
+  /**
+   * Transfers lobby ownership to another member of the lobby.
+   * The new owner is promoted to OWNER and the previous owner is demoted to MEMBER.
+   * @param lobbyId The lobby ID.
+   * @param newOwnerId The member receiving ownership.
+   * @param owner The current lobby owner.
+   * @returns A confirmation message.
+   */
+  async transferOwnership(
+    lobbyId: string,
+    newOwnerId: string,
+    owner: UserWithLobbyRelations,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== owner.id) {
+        throw new ForbiddenException('Only the owner can transfer ownership');
+      }
+
+      if (newOwnerId === owner.id) {
+        throw new BadRequestException('You already own this lobby');
+      }
+
+      const newOwner = await this.prismaService.user.findUnique({
+        where: { id: newOwnerId },
+      });
+
+      if (!newOwner || newOwner.lobbyId !== lobbyId) {
+        throw new BadRequestException('User is not a member of this lobby');
+      }
+
+      await this.prismaService.$transaction([
+        ...this.getOwnershipTransferOperations(lobbyId, newOwnerId),
+        this.prismaService.user.update({
+          where: { id: owner.id },
+          data: { role: UserRole.MEMBER },
+        }),
+      ]);
+
+      void this.lobbyGateway.notifyOwnershipTransferred(
+        lobbyId,
+        owner.id,
+        newOwnerId,
+        newOwner.username || 'Anonymous',
+      );
+
+      return { message: 'Lobby ownership has been transferred' };
+    } catch (error) {
+      this.handleServiceError(error, 'transfer ownership');
+    }
+  }
+
+  /**
+   * Builds the operations that make a member the owner of a lobby.
+   * Meant to be run inside a transaction together with the previous owner's update.
+   * @param lobbyId The lobby ID.
+   * @param newOwnerId The member becoming owner.
+   * @returns Prisma operations for use in a transaction.
+   */
+  private getOwnershipTransferOperations(lobbyId: string, newOwnerId: string) {
+    return [
+      this.prismaService.lobby.update({
+        where: { id: lobbyId },
+        data: { owner: { connect: { id: newOwnerId } } },
+      }),
+      this.prismaService.user.update({
+        where: { id: newOwnerId },
+        data: { role: UserRole.OWNER },
+      }),
+    ];
+  }
+
+  /**
+   * Promotes a lobby member to ADMIN.
+   * @param lobbyId The lobby ID.
+   * @param memberId The member to promote.
+   * @param owner The lobby owner performing the promotion.
+   * @returns A confirmation message.
+   */
+  async promoteMember(
+    lobbyId: string,
+    memberId: string,
+    owner: UserWithLobbyRelations,
+  ) {
+    try {
+      await this.changeMemberRole(lobbyId, memberId, owner, UserRole.ADMIN);
+
+      return { message: 'Member has been promoted to admin' };
+    } catch (error) {
+      this.handleServiceError(error, 'promote member');
+    }
+  }
+
+  /**
+   * Demotes a lobby admin back to MEMBER.
+   * @param lobbyId The lobby ID.
+   * @param memberId The admin to demote.
+   * @param owner The lobby owner performing the demotion.
+   * @returns A confirmation message.
+   */
+  async demoteMember(
+    lobbyId: string,
+    memberId: string,
+    owner: UserWithLobbyRelations,
+  ) {
+    try {
+      await this.changeMemberRole(lobbyId, memberId, owner, UserRole.MEMBER);
+
+      return { message: 'Admin has been demoted to member' };
+    } catch (error) {
+      this.handleServiceError(error, 'demote member');
+    }
+  }
+
+  /**
+   * Changes the role of a lobby member and notifies the lobby.
+   * @param lobbyId The lobby ID.
+   * @param memberId The member whose role changes.
+   * @param owner The lobby owner performing the change.
+   * @param role The new role (ADMIN or MEMBER).
+   * @throws ForbiddenException if the user is not the owner.
+   * @throws BadRequestException if the target is not a member or already has the role.
+   */
+  private async changeMemberRole(
+    lobbyId: string,
+    memberId: string,
+    owner: UserWithLobbyRelations,
+    role: typeof UserRole.ADMIN | typeof UserRole.MEMBER,
+  ) {
+    const lobby = await this.getLobbyById(lobbyId);
+
+    if (lobby.ownerId !== owner.id) {
+      throw new ForbiddenException('Only the owner can change member roles');
+    }
+
+    if (memberId === owner.id) {
+      throw new BadRequestException('Owner cannot change their own role');
+    }
+
+    const member = await this.prismaService.user.findUnique({
+      where: { id: memberId },
+    });
+
+    if (!member || member.lobbyId !== lobbyId) {
+      throw new BadRequestException('User is not a member of this lobby');
+    }
+
+    if (member.role === role) {
+      throw new BadRequestException(`User already has the ${role} role`);
+    }
+
+    await this.prismaService.user.update({
+      where: { id: memberId },
+      data: { role },
+    });
+
+    void this.lobbyGateway.notifyMemberRoleChanged(
+      lobbyId,
+      memberId,
+      member.username || 'Anonymous',
+      role,
+    );
+  }
+
   /**
    * Removes a member from a lobby.
    * @param lobbyId The lobby ID.
    * @param memberId The member to remove.
    * @param owner The lobby owner performing the removal.
+   * @param dto Whether to also ban the member, with optional ban details.
    * @returns A confirmation message.
    */
   async removeMember(
     lobbyId: string,
     memberId: string,
     owner: UserWithLobbyRelations,
+    dto: RemoveMemberDto = {},
   ) {
     try {
       const lobby = await this.getLobbyById(lobbyId);
@@ -567,15 +1672,30 @@ export class LobbyService {
         throw new BadRequestException('User is not a member of this lobby');
       }
 
+      if (dto.ban) {
+        await this.applyBan(lobbyId, memberId, owner, dto, true);
+
+        return { message: 'Member has been removed and banned from the lobby' };
+      }
+
       await this.prismaService.user.update({
         where: { id: memberId },
-        data: {
-          lobbyId: null,
-          role: UserRole.MEMBER,
-        },
+        data: FORMER_MEMBER_DATA,
+      });
+
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.MEMBER_KICKED,
+        actorId: owner.id,
+        targetUserId: memberId,
+      });
+
+      await this.notificationsService.notify(memberId, {
+        type: NotificationType.MEMBER_KICKED,
+        lobbyId,
       });
 
-      if (this.lobbyGateway.isUserConnected(memberId)) {
+      if (await this.lobbyGateway.isUserConnected(memberId)) {
         void this.lobbyGateway.notifyUserRequestUpdate(
           memberId,
           lobbyId,
@@ -583,9 +1703,529 @@ export class LobbyService {
         );
       }
 
+      void this.lobbyGateway.leaveLobbyRoom(memberId, lobbyId);
+
+      await this.waitlistService.fillOpenSlots(lobbyId);
+
       return { message: 'Member has been removed from the lobby' };
     } catch (error) {
       this.handleServiceError(error, 'remove member');
     }
   }
+
+  /**
+   * Retrieves the active bans of a lobby.
+   * @param lobbyId The lobby ID.
+   * @param owner The lobby owner.
+   * @returns List of active bans with the banned user and issuer.
+   */
+  async getBans(lobbyId: string, owner: UserWithLobbyRelations) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== owner.id) {
+        throw new ForbiddenException('Only the owner can view bans');
+      }
+
+      return this.prismaService.lobbyBan.findMany({
+        where: {
+          lobbyId,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          user: {
+            select: { id: true, username: true, avatar: true, steamId: true },
+          },
+          bannedBy: { select: { id: true, username: true } },
+        },
+      });
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve bans');
+    }
+  }
+
+  /**
+   * Bans a user from a lobby, removing them first if they are a member.
+   * @param lobbyId The lobby ID.
+   * @param owner The lobby owner issuing the ban.
+   * @param dto The user to ban with an optional reason and duration.
+   * @returns A confirmation message.
+   */
+  async banUser(
+    lobbyId: string,
+    owner: UserWithLobbyRelations,
+    dto: BanUserDto,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== owner.id) {
+        throw new ForbiddenException('Only the owner can ban users');
+      }
+
+      if (dto.userId === owner.id) {
+        throw new BadRequestException('Owner cannot ban themselves');
+      }
+
+      const user = await this.prismaService.user.findUnique({
+        where: { id: dto.userId },
+      });
+
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+
+      await this.applyBan(
+        lobbyId,
+        dto.userId,
+        owner,
+        dto,
+        user.lobbyId === lobbyId,
+      );
+
+      return { message: 'User has been banned from the lobby' };
+    } catch (error) {
+      this.handleServiceError(error, 'ban user');
+    }
+  }
+
+  /**
+   * Lifts a user's ban from a lobby.
+   * @param lobbyId The lobby ID.
+   * @param userId The banned user's ID.
+   * @param owner The lobby owner lifting the ban.
+   * @returns A confirmation message.
+   */
+  async unbanUser(
+    lobbyId: string,
+    userId: string,
+    owner: UserWithLobbyRelations,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      if (lobby.ownerId !== owner.id) {
+        throw new ForbiddenException('Only the owner can unban users');
+      }
+
+      const ban = await this.prismaService.lobbyBan.findUnique({
+        where: { lobbyId_userId: { lobbyId, userId } },
+      });
+
+      if (!ban) {
+        throw new NotFoundException('Ban not found');
+      }
+
+      await this.prismaService.lobbyBan.delete({ where: { id: ban.id } });
+
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.MEMBER_UNBANNED,
+        actorId: owner.id,
+        targetUserId: userId,
+      });
+
+      return { message: 'User has been unbanned from the lobby' };
+    } catch (error) {
+      this.handleServiceError(error, 'unban user');
+    }
+  }
+
+  /**
+   * Records or refreshes a ban and, in the same transaction, removes the
+   * user from the lobby and rejects their pending request to it.
+   * @param lobbyId The lobby ID.
+   * @param userId The user to ban.
+   * @param owner The lobby owner issuing the ban.
+   * @param details Optional reason and duration of the ban.
+   * @param isMember Whether the user is currently a member, recorded in the audit log.
+   */
+  private async applyBan(
+    lobbyId: string,
+    userId: string,
+    owner: UserWithLobbyRelations,
+    details: BanDetailsDto,
+    isMember: boolean,
+  ): Promise<void> {
+    const now = new Date();
+    const ban = {
+      reason: details.reason ?? null,
+      expiresAt: details.expiresInHours
+        ? new Date(now.getTime() + details.expiresInHours * 60 * 60 * 1000)
+        : null,
+      bannedById: owner.id,
+    };
+
+    await this.prismaService.$transaction([
+      this.prismaService.lobbyBan.upsert({
+        where: { lobbyId_userId: { lobbyId, userId } },
+        create: { lobbyId, userId, ...ban },
+        update: { ...ban, createdAt: now },
+      }),
+      this.prismaService.user.updateMany({
+        where: { id: userId, lobbyId },
+        data: FORMER_MEMBER_DATA,
+      }),
+      this.prismaService.lobbyJoinRequest.updateMany({
+        where: {
+          userId,
+          lobbyId,
+          status: { in: [RequestStatus.PENDING, RequestStatus.WAITLISTED] },
+        },
+        data: {
+          status: RequestStatus.REJECTED,
+          decidedAt: now,
+          decidedById: owner.id,
+        },
+      }),
+      this.prismaService.lobbyWaitlistEntry.deleteMany({
+        where: { lobbyId, userId },
+      }),
+    ]);
+
+    await this.auditService.record({
+      lobbyId,
+      action: LobbyAuditAction.MEMBER_BANNED,
+      actorId: owner.id,
+      targetUserId: userId,
+      payload: {
+        reason: ban.reason,
+        expiresAt: ban.expiresAt?.toISOString() ?? null,
+        kicked: isMember,
+      },
+    });
+
+    await this.notificationsService.notify(userId, {
+      type: NotificationType.MEMBER_BANNED,
+      lobbyId,
+      payload: {
+        reason: ban.reason,
+        expiresAt: ban.expiresAt?.toISOString() ?? null,
+      },
+    });
+
+    if (await this.lobbyGateway.isUserConnected(userId)) {
+      void this.lobbyGateway.notifyUserRequestUpdate(userId, lobbyId, 'banned');
+    }
+
+    if (isMember) {
+      void this.lobbyGateway.leaveLobbyRoom(userId, lobbyId);
+    }
+
+    // A kicked member or a withdrawn waitlist offer frees a slot
+    await this.waitlistService.fillOpenSlots(lobbyId);
+  }
+
+  /**
+   * Verifies that a user is not under an active ban from a lobby.
+   * @param lobbyId The lobby ID.
+   * @param userId The user ID.
+   * @throws ForbiddenException if the user is banned.
+   */
+  private async assertNotBanned(lobbyId: string, userId: string) {
+    const ban = await this.prismaService.lobbyBan.findUnique({
+      where: { lobbyId_userId: { lobbyId, userId } },
+    });
+
+    if (!ban || (ban.expiresAt && ban.expiresAt <= new Date())) {
+      return;
+    }
+
+    throw new ForbiddenException(
+      ban.expiresAt
+        ? `You are banned from this lobby until ${ban.expiresAt.toISOString()}`
+        : 'You are banned from this lobby',
+    );
+  }
+
+  /**
+   * Retrieves the audit log of a lobby.
+   * @param lobbyId The lobby ID.
+   * @param user The lobby owner or admin.
+   * @param query Optional filters and pagination cursor.
+   * @returns A page of audit entries, newest first.
+   */
+  async getAuditLog(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    query: AuditLogQueryDto,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      this.assertCanManageLobby(lobby, user, 'view the audit log');
+
+      return await this.auditService.getLobbyAuditLog(lobbyId, query);
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve audit log');
+    }
+  }
+
+  /**
+   * Verifies that a user is the owner or an admin of the given lobby.
+   * @param lobby The lobby being managed.
+   * @param user The user performing the action.
+   * @param action A description of the action for the error message.
+   * @throws ForbiddenException if the user is neither owner nor admin.
+   */
+  private assertCanManageLobby(
+    lobby: { id: string; ownerId: string },
+    user: UserWithLobbyRelations,
+    action: string,
+  ): void {
+    const isOwner = lobby.ownerId === user.id;
+    const isAdmin = user.lobbyId === lobby.id && user.role === UserRole.ADMIN;
+
+    if (!isOwner && !isAdmin) {
+      throw new ForbiddenException(`Only the owner or admins can ${action}`);
+    }
+  }
+
+  /**
+   * Retrieves all invites of a lobby.
+   * @param lobbyId The lobby ID.
+   * @param user The lobby owner or admin.
+   * @returns List of invites with their creator.
+   */
+  async getInvites(lobbyId: string, user: UserWithLobbyRelations) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      this.assertCanManageLobby(lobby, user, 'view invites');
+
+      return this.prismaService.lobbyInvite.findMany({
+        where: { lobbyId },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          createdBy: { select: { id: true, username: true } },
+        },
+      });
+    } catch (error) {
+      this.handleServiceError(error, 'retrieve invites');
+    }
+  }
+
+  /**
+   * Creates an invite code for a lobby.
+   * @param lobbyId The lobby ID.
+   * @param user The lobby owner or admin creating the invite.
+   * @param dto Optional expiry and maximum number of uses.
+   * @returns The created invite.
+   */
+  async createInvite(
+    lobbyId: string,
+    user: UserWithLobbyRelations,
+    dto: CreateLobbyInviteDto,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      this.assertCanManageLobby(lobby, user, 'create invites');
+
+      return await this.prismaService.lobbyInvite.create({
+        data: {
+          code: randomBytes(INVITE_CODE_BYTES).toString('base64url'),
+          lobbyId,
+          createdById: user.id,
+          maxUses: dto.maxUses,
+          expiresAt: dto.expiresInHours
+            ? new Date(Date.now() + dto.expiresInHours * 60 * 60 * 1000)
+            : undefined,
+        },
+      });
+    } catch (error) {
+      this.handleServiceError(error, 'create invite');
+    }
+  }
+
+  /**
+   * Revokes an invite so it can no longer be redeemed.
+   * @param lobbyId The lobby ID.
+   * @param inviteId The invite ID.
+   * @param user The lobby owner or admin revoking the invite.
+   * @returns A confirmation message.
+   */
+  async revokeInvite(
+    lobbyId: string,
+    inviteId: string,
+    user: UserWithLobbyRelations,
+  ) {
+    try {
+      const lobby = await this.getLobbyById(lobbyId);
+
+      this.assertCanManageLobby(lobby, user, 'revoke invites');
+
+      const invite = await this.prismaService.lobbyInvite.findUnique({
+        where: { id: inviteId },
+      });
+
+      if (!invite || invite.lobbyId !== lobbyId) {
+        throw new NotFoundException('Invite not found');
+      }
+
+      if (invite.revokedAt) {
+        throw new BadRequestException('Invite has already been revoked');
+      }
+
+      await this.prismaService.lobbyInvite.update({
+        where: { id: inviteId },
+        data: { revokedAt: new Date() },
+      });
+
+      return { message: 'Invite has been revoked' };
+    } catch (error) {
+      this.handleServiceError(error, 'revoke invite');
+    }
+  }
+
+  /**
+   * Redeems an invite code and adds the user directly to the lobby,
+   * bypassing the join request queue.
+   * @param code The invite code.
+   * @param user The user redeeming the invite.
+   * @returns A confirmation message with the joined lobby ID.
+   * @throws BadRequestException if the invite is invalid, the lobby is full
+   * or the user is already in a lobby.
+   */
+  async redeemInvite(code: string, user: UserWithLobbyRelations) {
+    try {
+      if (user.memberLobby) {
+        throw new BadRequestException('You are already a member of a lobby');
+      }
+
+      const invite = await this.prismaService.lobbyInvite.findUnique({
+        where: { code },
+      });
+
+      if (!invite) {
+        throw new NotFoundException('Invite not found');
+      }
+
+      if (invite.revokedAt) {
+        throw new BadRequestException('This invite has been revoked');
+      }
+
+      if (invite.expiresAt && invite.expiresAt <= new Date()) {
+        throw new BadRequestException('This invite has expired');
+      }
+
+      const usedUp = new BadRequestException(
+        'This invite has reached its maximum number of uses',
+      );
+      if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+        throw usedUp;
+      }
+
+      const lobby = await this.getLobbyById(invite.lobbyId);
+
+      await this.assertNotBanned(lobby.id, user.id);
+
+      // The checks above are repeated as conditional writes, since another
+      // redemption or join may have taken the last use or seat meanwhile
+      const superseded = await this.prismaService.$transaction(async (tx) => {
+        const claimed = await tx.lobbyInvite.updateMany({
+          where: {
+            id: invite.id,
+            revokedAt: null,
+            ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+          },
+          data: { uses: { increment: 1 } },
+        });
+        if (claimed.count === 0) {
+          throw usedUp;
+        }
+
+        await this.waitlistService.claimSeat(tx, lobby.id, lobby.capacity);
+
+        const joined = await tx.user.updateMany({
+          where: { id: user.id, lobbyId: null },
+          data: { lobbyId: lobby.id, lobbyJoinedAt: new Date() },
+        });
+        if (joined.count === 0) {
+          throw new BadRequestException('You are already a member of a lobby');
+        }
+
+        return this.supersedeOpenRequests(tx, user.id);
+      });
+
+      await this.releaseSupersededRequests(superseded, user.id);
+      await this.announceMemberJoined(lobby, user, { inviteId: invite.id });
+
+      return { message: 'You have joined the lobby', lobbyId: lobby.id };
+    } catch (error) {
+      this.handleServiceError(error, 'redeem invite');
+    }
+  }
+
+  /**
+   * Closes the join requests a user still had pending or waitlisted after
+   * joining a lobby, and takes the user off every waitlist. The requests are
+   * kept as history with a SUPERSEDED status.
+   * @param tx The transaction the user joins the lobby in.
+   * @param userId The user ID.
+   * @returns The superseded requests and the lobbies whose waitlist the user
+   * left.
+   */
+  private async supersedeOpenRequests(
+    tx: Prisma.TransactionClient,
+    userId: string,
+  ): Promise<{
+    requests: { id: string; lobbyId: string }[];
+    waitlistLobbyIds: string[];
+  }> {
+    const openStatuses = [RequestStatus.PENDING, RequestStatus.WAITLISTED];
+    const [requests, entries] = await Promise.all([
+      tx.lobbyJoinRequest.findMany({
+        where: { userId, status: { in: openStatuses } },
+        select: { id: true, lobbyId: true },
+      }),
+      tx.lobbyWaitlistEntry.findMany({
+        where: { userId },
+        select: { lobbyId: true },
+      }),
+    ]);
+
+    if (requests.length) {
+      await tx.lobbyJoinRequest.updateMany({
+        where: {
+          id: { in: requests.map((request) => request.id) },
+          status: { in: openStatuses },
+        },
+        data: { status: RequestStatus.SUPERSEDED, decidedAt: new Date() },
+      });
+    }
+
+    if (entries.length) {
+      await tx.lobbyWaitlistEntry.deleteMany({ where: { userId } });
+    }
+
+    return {
+      requests,
+      waitlistLobbyIds: entries.map((entry) => entry.lobbyId),
+    };
+  }
+
+  /**
+   * Tells the lobbies of superseded join requests that the applicant
+   * withdrew, as if the requests had been cancelled, and hands the places
+   * the user left on waitlists to the next users in line.
+   * @param superseded The superseded requests and waitlists.
+   * @param userId The applicant's user ID.
+   */
+  private async releaseSupersededRequests(
+    superseded: {
+      requests: { lobbyId: string }[];
+      waitlistLobbyIds: string[];
+    },
+    userId: string,
+  ): Promise<void> {
+    for (const { lobbyId } of superseded.requests) {
+      void this.lobbyGateway.notifyRequestCancelled(lobbyId, userId);
+    }
+
+    for (const lobbyId of superseded.waitlistLobbyIds) {
+      await this.waitlistService.fillOpenSlots(lobbyId);
+    }
+  }
 }
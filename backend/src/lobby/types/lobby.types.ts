@@ -0,0 +1,78 @@
+import { LobbyJoinPolicy, LobbyVisibility } from '@prisma/client';
+
+/**
+ * Lightweight lobby representation used by listing endpoints.
+ */
+export type LobbySummary = {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl: string | null;
+  visibility: LobbyVisibility;
+  joinPolicy: LobbyJoinPolicy;
+  capacity: number;
+  memberCount: number;
+  gameCount: number;
+  freeSlots: number;
+  createdAt: Date;
+};
+
+/**
+ * Cursor-paginated result wrapper.
+ */
+export type PaginatedResult<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+/**
+ * Editable lobby profile fields broadcast to members on change.
+ */
+export type LobbyProfile = {
+  name: string;
+  description: string;
+  imageUrl: string | null;
+  capacity: number;
+  joinPolicy: LobbyJoinPolicy;
+};
+
+/**
+ * An applicant's answer to one of the lobby's application questions.
+ */
+export type ApplicationAnswer = {
+  question: string;
+  answer: string;
+};
+
+/**
+ * Application details attached to a join request.
+ */
+export type JoinRequestApplication = {
+  message: string | null;
+  answers: ApplicationAnswer[];
+};
+
+/**
+ * Presence states a connected lobby member can be in.
+ */
+export type PresenceStatus = 'online' | 'away' | 'in-game';
+
+/**
+ * A lobby member's presence as stored in Redis.
+ */
+export type MemberPresence = {
+  userId: string;
+  status: PresenceStatus;
+  updatedAt: string;
+};
+
+/**
+ * A user's place on a lobby waitlist. The position is null once a slot has
+ * been offered, since the user is no longer waiting in line.
+ */
+export type WaitlistStatus = {
+  lobbyId: string;
+  position: number | null;
+  offeredAt: Date | null;
+  offerExpiresAt: Date | null;
+};
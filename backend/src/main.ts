@@ -8,6 +8,8 @@ import helmet from 'helmet';
 import { LoggerMiddleware } from './common/middleware/logger.middleware';
 import { Request, Response, NextFunction } from 'express';
 import { AllExceptionsFilter } from './common/filters/all-esceptions-filter';
+import { RedisIoAdapter } from './redis/redis-io.adapter';
+import { RedisProvider } from './redis/redis.provider';
 
 /**
  * Application Bootstrap
@@ -90,6 +92,11 @@ async function bootstrap() {
       credentials: true,
     });
 
+    // Share WebSocket rooms across instances through Redis
+    const redisIoAdapter = new RedisIoAdapter(app, app.get(RedisProvider));
+    redisIoAdapter.connectToRedis();
+    app.useWebSocketAdapter(redisIoAdapter);
+
     // Global prefix
     app.setGlobalPrefix('api');
 
@@ -0,0 +1,29 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class NotificationsQueryDto {
+  /** Only return notifications that have not been read yet. */
+  @Transform(({ obj, key }: { obj: Record<string, unknown>; key: string }) =>
+    [true, 'true'].includes(obj[key] as boolean | string),
+  )
+  @IsBoolean()
+  @IsOptional()
+  unread?: boolean;
+
+  @IsUUID()
+  @IsOptional()
+  cursor?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from 'src/auth/guards/jwt-auth.guard';
+import { AuthenticatedRequest } from 'src/auth/auth-request.interface';
+import { NotificationsService } from './notifications.service';
+import { NotificationsQueryDto } from './dto/notifications-query.dto';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard) // Applies JWT authentication guard to all routes
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * Lists the authenticated user's notifications, optionally only unread ones.
+   */
+  @Get()
+  getNotifications(
+    @Query() query: NotificationsQueryDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.notificationsService.getNotifications(req.user.id, query);
+  }
+
+  /**
+   * Marks every notification of the authenticated user as read.
+   */
+  @Patch('read-all')
+  markAllRead(@Req() req: AuthenticatedRequest) {
+    return this.notificationsService.markAllRead(req.user.id);
+  }
+
+  /**
+   * Marks a single notification as read.
+   */
+  @Patch(':notificationId/read')
+  markRead(
+    @Param('notificationId') notificationId: string,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    return this.notificationsService.markRead(req.user.id, notificationId);
+  }
+}
@@ -0,0 +1,37 @@
+import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Notification } from '@prisma/client';
+import { Server } from 'socket.io';
+import { LOBBY_GATEWAY_OPTIONS } from 'src/lobby/lobby.constants';
+
+/**
+ * Pushes inbox updates to users over the `lobby` namespace.
+ * Connections and rooms are managed by `LobbyGateway`, which places every
+ * authenticated socket in its `user-<id>` room.
+ */
+@WebSocketGateway(LOBBY_GATEWAY_OPTIONS)
+export class NotificationsGateway {
+  @WebSocketServer()
+  private server!: Server;
+
+  /**
+   * Delivers a new notification to the user's live sockets.
+   * @param notification - The stored notification.
+   */
+  sendNotification(notification: Notification): void {
+    this.server
+      .to(`user-${notification.userId}`)
+      .emit('notification', notification);
+  }
+
+  /**
+   * Sends the user's current unread notification count.
+   * @param userId - The user ID.
+   * @param count - The number of unread notifications.
+   */
+  sendUnreadCount(userId: string, count: number): void {
+    this.server.to(`user-${userId}`).emit('notification-count', {
+      unread: count,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
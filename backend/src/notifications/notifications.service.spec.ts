@@ -0,0 +1,179 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Notification, NotificationType } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationsService } from './notifications.service';
+
+const createMockNotification = (
+  overrides: Partial<Notification> = {},
+): Notification => ({
+  id: 'notification1',
+  userId: 'user1',
+  type: NotificationType.REQUEST_ACCEPTED,
+  lobbyId: 'lobby1',
+  payload: null,
+  readAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let prismaService: jest.Mocked<PrismaService>;
+  let notificationsGateway: jest.Mocked<NotificationsGateway>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            notification: {
+              create: jest.fn().mockResolvedValue(createMockNotification()),
+              findMany: jest.fn().mockResolvedValue([]),
+              findFirst: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+              count: jest.fn().mockResolvedValue(1),
+            },
+          },
+        },
+        {
+          provide: NotificationsGateway,
+          useValue: { sendNotification: jest.fn(), sendUnreadCount: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+    prismaService = module.get(PrismaService);
+    notificationsGateway = module.get(NotificationsGateway);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('notify', () => {
+    it('should store the notification and push it with the unread count', async () => {
+      await service.notify('user1', {
+        type: NotificationType.REQUEST_ACCEPTED,
+        lobbyId: 'lobby1',
+      });
+
+      expect(prismaService.notification.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user1',
+          type: NotificationType.REQUEST_ACCEPTED,
+          lobbyId: 'lobby1',
+          payload: undefined,
+        },
+      });
+      expect(notificationsGateway.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'notification1' }),
+      );
+      expect(notificationsGateway.sendUnreadCount).toHaveBeenCalledWith(
+        'user1',
+        1,
+      );
+    });
+
+    it('should not throw when the notification cannot be stored', async () => {
+      (prismaService.notification.create as jest.Mock).mockRejectedValueOnce(
+        new Error('Database unavailable'),
+      );
+
+      await expect(
+        service.notify('user1', { type: NotificationType.MEMBER_KICKED }),
+      ).resolves.toBeUndefined();
+      expect(notificationsGateway.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should only return unread notifications when filtered', async () => {
+      await service.getNotifications('user1', { unread: true, limit: 10 });
+
+      expect(prismaService.notification.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', readAt: null },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        take: 11,
+      });
+    });
+
+    it('should return a cursor when more notifications remain', async () => {
+      (prismaService.notification.findMany as jest.Mock).mockResolvedValueOnce([
+        createMockNotification({ id: 'n1' }),
+        createMockNotification({ id: 'n2' }),
+      ]);
+
+      const result = await service.getNotifications('user1', {
+        limit: 1,
+        cursor: 'n0',
+      });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.nextCursor).toBe('n1');
+      expect(prismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user1' },
+          cursor: { id: 'n0' },
+          skip: 1,
+        }),
+      );
+    });
+  });
+
+  describe('markRead', () => {
+    it('should mark the notification as read and push the new count', async () => {
+      (prismaService.notification.findFirst as jest.Mock).mockResolvedValueOnce(
+        createMockNotification(),
+      );
+      (prismaService.notification.count as jest.Mock).mockResolvedValueOnce(0);
+
+      await service.markRead('user1', 'notification1');
+
+      expect(prismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification1' },
+        data: { readAt: expect.any(Date) },
+      });
+      expect(notificationsGateway.sendUnreadCount).toHaveBeenCalledWith(
+        'user1',
+        0,
+      );
+    });
+
+    it("should throw for another user's notification", async () => {
+      (prismaService.notification.findFirst as jest.Mock).mockResolvedValueOnce(
+        null,
+      );
+
+      await expect(service.markRead('user2', 'notification1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prismaService.notification.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markAllRead', () => {
+    it('should mark every unread notification as read', async () => {
+      (
+        prismaService.notification.updateMany as jest.Mock
+      ).mockResolvedValueOnce({ count: 3 });
+
+      const result = await service.markAllRead('user1');
+
+      expect(result).toEqual({ updated: 3 });
+      expect(prismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
+      expect(notificationsGateway.sendUnreadCount).toHaveBeenCalledWith(
+        'user1',
+        0,
+      );
+    });
+  });
+});
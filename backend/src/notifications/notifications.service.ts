@@ -0,0 +1,143 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Notification, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PaginatedResult } from 'src/lobby/types/lobby.types';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationsQueryDto } from './dto/notifications-query.dto';
+import { NotificationEntry } from './types/notification.types';
+
+const DEFAULT_NOTIFICATIONS_PAGE_SIZE = 20;
+
+/**
+ * Notifications Service
+ *
+ * Keeps a per-user inbox of events such as join request decisions and
+ * removals, so users who were offline when they happened still see them.
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly notificationsGateway: NotificationsGateway,
+  ) {}
+
+  /**
+   * Stores a notification and delivers it live if the user is connected.
+   * Failures are logged rather than thrown so that notifying never undoes
+   * the action it reports.
+   * @param userId The recipient.
+   * @param entry The notification type, lobby and payload.
+   */
+  async notify(userId: string, entry: NotificationEntry): Promise<void> {
+    try {
+      const notification = await this.prismaService.notification.create({
+        data: {
+          userId,
+          type: entry.type,
+          lobbyId: entry.lobbyId ?? null,
+          payload: entry.payload,
+        },
+      });
+
+      this.notificationsGateway.sendNotification(notification);
+      await this.pushUnreadCount(userId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify ${userId} of ${entry.type}: ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a user's notifications, newest first.
+   * @param userId The user ID.
+   * @param query Optional unread filter with pagination.
+   * @returns A page of notifications.
+   */
+  async getNotifications(
+    userId: string,
+    query: NotificationsQueryDto,
+  ): Promise<PaginatedResult<Notification>> {
+    const limit = query.limit ?? DEFAULT_NOTIFICATIONS_PAGE_SIZE;
+
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(query.unread && { readAt: null }),
+    };
+
+    const notifications = await this.prismaService.notification.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+
+    const hasMore = notifications.length > limit;
+    const items = hasMore ? notifications.slice(0, limit) : notifications;
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Marks one of the user's notifications as read.
+   * @param userId The user ID.
+   * @param notificationId The notification ID.
+   * @returns The updated notification.
+   * @throws NotFoundException if the notification is not in the user's inbox.
+   */
+  async markRead(userId: string, notificationId: string) {
+    const notification = await this.prismaService.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (notification.readAt) return notification;
+
+    const updated = await this.prismaService.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    });
+
+    await this.pushUnreadCount(userId);
+
+    return updated;
+  }
+
+  /**
+   * Marks every unread notification of the user as read.
+   * @param userId The user ID.
+   * @returns The number of notifications marked as read.
+   */
+  async markAllRead(userId: string) {
+    const { count } = await this.prismaService.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    if (count > 0) this.notificationsGateway.sendUnreadCount(userId, 0);
+
+    return { updated: count };
+  }
+
+  /**
+   * Counts the user's unread notifications and pushes the count live.
+   * @param userId The user ID.
+   */
+  private async pushUnreadCount(userId: string): Promise<void> {
+    const count = await this.prismaService.notification.count({
+      where: { userId, readAt: null },
+    });
+
+    this.notificationsGateway.sendUnreadCount(userId, count);
+  }
+}
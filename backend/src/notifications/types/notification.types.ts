@@ -0,0 +1,10 @@
+import { NotificationType, Prisma } from '@prisma/client';
+
+/**
+ * A notification to add to a user's inbox.
+ */
+export type NotificationEntry = {
+  type: NotificationType;
+  lobbyId?: string | null;
+  payload?: Prisma.InputJsonObject;
+};
@@ -4,6 +4,9 @@ import { PrismaClient } from '@prisma/client';
 @Injectable()
 export class PrismaService extends PrismaClient {
   constructor() {
-    super();
+    // Lobby password hashes are never loaded unless a query opts back in
+    // with `omit: { joinPasswordHash: false }`, so they cannot leak through
+    // responses that embed a lobby
+    super({ omit: { lobby: { joinPasswordHash: true } } });
   }
 }
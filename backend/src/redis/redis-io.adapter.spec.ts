@@ -0,0 +1,216 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { AddressInfo, Server as NetServer } from 'net';
+import RedisMock from 'ioredis-mock';
+import { io, Socket as ClientSocket } from 'socket.io-client';
+import { LobbyGateway } from '../lobby/lobby.gateway';
+import { LobbyService } from '../lobby/lobby.service';
+import { LobbyChatService } from '../lobby/lobby-chat.service';
+import { LobbyPresenceService } from '../lobby/lobby-presence.service';
+import { UsersService } from '../users/users.service';
+import { RedisIoAdapter } from './redis-io.adapter';
+import { RedisProvider } from './redis.provider';
+
+const MOCK_LOBBY_ID = 'lobby-1';
+const OWNER_ID = 'owner-1';
+const REQUESTER_ID = 'user-2';
+
+// Users by Steam ID; the test tokens are the Steam IDs themselves
+const users: Record<string, Record<string, unknown>> = {
+  owner: {
+    id: OWNER_ID,
+    steamId: 'owner',
+    username: 'owner',
+    lobbyId: MOCK_LOBBY_ID,
+    lobby: { id: MOCK_LOBBY_ID },
+  },
+  requester: {
+    id: REQUESTER_ID,
+    steamId: 'requester',
+    username: 'requester',
+    lobbyId: null,
+    lobby: null,
+  },
+};
+
+/**
+ * ioredis-mock shares pub/sub state between instances, which makes it a
+ * stand-in for a single Redis server. Two gaps are patched to match ioredis:
+ * messages are published as buffers so `messageBuffer` listeners fire, and
+ * `send_command` (used to count subscribed instances) goes through `pubsub`.
+ */
+const createRedisStandIn = () => {
+  const client = new RedisMock();
+  const publish = client.publish.bind(client);
+  Object.assign(client, {
+    publish: (channel: string, message: string | Buffer) =>
+      publish(
+        channel,
+        Buffer.isBuffer(message) ? message : Buffer.from(message),
+      ),
+    send_command: (
+      command: string,
+      args: string[],
+      callback: (err: Error | null, result?: unknown) => void,
+    ) => {
+      const [subcommand, ...channels] = args;
+      if (command !== 'PUBSUB' || subcommand !== 'NUMSUB') {
+        callback(new Error(`Unsupported command ${command} ${subcommand}`));
+        return;
+      }
+      client.pubsub('NUMSUB', ...channels).then(
+        (result) => callback(null, result),
+        (err: Error) => callback(err),
+      );
+    },
+  });
+  return client;
+};
+
+interface GatewayInstance {
+  app: INestApplication;
+  gateway: LobbyGateway;
+  url: string;
+}
+
+// Boots a gateway behind its own HTTP server, like a separate API instance
+const bootInstance = async (): Promise<GatewayInstance> => {
+  const module = await Test.createTestingModule({
+    providers: [
+      LobbyGateway,
+      {
+        provide: JwtService,
+        useValue: {
+          verifyAsync: jest.fn((token: string) =>
+            users[token]
+              ? Promise.resolve({ sub: users[token].id, steamId: token })
+              : Promise.reject(new Error('Invalid token')),
+          ),
+        },
+      },
+      { provide: ConfigService, useValue: { get: jest.fn() } },
+      { provide: LobbyService, useValue: {} },
+      {
+        provide: UsersService,
+        useValue: {
+          findBySteamId: jest.fn((steamId: string) =>
+            Promise.resolve(users[steamId] ?? null),
+          ),
+        },
+      },
+      { provide: LobbyChatService, useValue: {} },
+      {
+        provide: LobbyPresenceService,
+        useValue: { connect: jest.fn(), disconnect: jest.fn() },
+      },
+    ],
+  }).compile();
+
+  const app = module.createNestApplication({ logger: false });
+  const redisProvider = {
+    createPubSubClients: () => [createRedisStandIn(), createRedisStandIn()],
+  } as unknown as RedisProvider;
+  const adapter = new RedisIoAdapter(app, redisProvider);
+  adapter.connectToRedis();
+  app.useWebSocketAdapter(adapter);
+  await app.listen(0);
+
+  const httpServer = app.getHttpServer() as NetServer;
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    app,
+    gateway: app.get(LobbyGateway),
+    url: `http://localhost:${port}/lobby`,
+  };
+};
+
+const connectClient = (url: string, token: string): Promise<ClientSocket> =>
+  new Promise((resolve, reject) => {
+    const client = io(url, {
+      transports: ['websocket'],
+      auth: { token },
+      forceNew: true,
+    });
+    client.once('connect', () => resolve(client));
+    client.once('connect_error', reject);
+  });
+
+// Polls until the room holds the expected number of sockets cluster-wide
+const waitForRoom = async (
+  gateway: LobbyGateway,
+  room: string,
+  expected = 1,
+) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const sockets = await gateway['server'].in(room).fetchSockets();
+    if (sockets.length === expected) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Room ${room} never reached ${expected} socket(s)`);
+};
+
+describe('RedisIoAdapter', () => {
+  let first: GatewayInstance;
+  let second: GatewayInstance;
+  const clients: ClientSocket[] = [];
+
+  beforeAll(async () => {
+    first = await bootInstance();
+    second = await bootInstance();
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.disconnect());
+    await waitForRoom(first.gateway, `user-${OWNER_ID}`, 0);
+    await waitForRoom(first.gateway, `user-${REQUESTER_ID}`, 0);
+  });
+
+  afterAll(async () => {
+    await first.app.close();
+    await second.app.close();
+  });
+
+  it('should see users connected to another instance', async () => {
+    clients.push(await connectClient(first.url, 'owner'));
+    await waitForRoom(first.gateway, `user-${OWNER_ID}`);
+
+    await expect(second.gateway.isUserConnected(OWNER_ID)).resolves.toBe(true);
+    await expect(second.gateway.isUserConnected(REQUESTER_ID)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('should deliver notifications emitted by another instance', async () => {
+    const owner = await connectClient(first.url, 'owner');
+    clients.push(owner);
+    await waitForRoom(first.gateway, `user-${OWNER_ID}`);
+
+    const received = new Promise<Record<string, unknown>>((resolve) =>
+      owner.once('join-request', resolve),
+    );
+    second.gateway.notifyNewRequest(
+      MOCK_LOBBY_ID,
+      OWNER_ID,
+      REQUESTER_ID,
+      'requester',
+      { message: 'Hi!', answers: [] },
+    );
+
+    await expect(received).resolves.toEqual(
+      expect.objectContaining({ userId: REQUESTER_ID, message: 'Hi!' }),
+    );
+  });
+
+  it('should move sockets between rooms from another instance', async () => {
+    clients.push(await connectClient(first.url, 'requester'));
+    await waitForRoom(first.gateway, `user-${REQUESTER_ID}`);
+
+    second.gateway.joinLobbyRoom(REQUESTER_ID, MOCK_LOBBY_ID);
+    await waitForRoom(first.gateway, `lobby-${MOCK_LOBBY_ID}`);
+
+    second.gateway.leaveLobbyRoom(REQUESTER_ID, MOCK_LOBBY_ID);
+    await waitForRoom(first.gateway, `lobby-${MOCK_LOBBY_ID}`, 0);
+  });
+});
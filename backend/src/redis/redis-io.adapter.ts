@@ -0,0 +1,36 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { Server, ServerOptions } from 'socket.io';
+import { RedisProvider } from './redis.provider';
+
+/**
+ * Socket.io adapter that relays broadcasts and room lookups through Redis
+ * pub/sub, so emits and `fetchSockets` calls reach sockets connected to any
+ * API instance rather than only the local one.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly redisProvider: RedisProvider,
+  ) {
+    super(app);
+  }
+
+  /**
+   * Creates the pub/sub connections backing the adapter.
+   * Must be called before the adapter is registered with the application.
+   */
+  connectToRedis(): void {
+    const [pubClient, subClient] = this.redisProvider.createPubSubClients();
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+}
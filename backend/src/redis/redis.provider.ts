@@ -12,6 +12,7 @@ export class RedisProvider implements OnApplicationShutdown {
   private readonly logger = new Logger(RedisProvider.name);
   private readonly client: Redis | Cluster;
   private readonly isCluster: boolean;
+  private readonly pubSubClients: (Redis | Cluster)[] = [];
 
   constructor(private readonly configService: ConfigService) {
     const redisConfig = {
@@ -76,6 +77,35 @@ export class RedisProvider implements OnApplicationShutdown {
     return this.client;
   }
 
+  /**
+   * Creates a dedicated publisher/subscriber pair for cross-instance messaging.
+   * Subscribed connections cannot issue regular commands, so these are kept
+   * separate from the shared client and closed together with it on shutdown.
+   */
+  createPubSubClients(): [Redis | Cluster, Redis | Cluster] {
+    const clients = [this.duplicateClient(), this.duplicateClient()] as [
+      Redis | Cluster,
+      Redis | Cluster,
+    ];
+    this.pubSubClients.push(...clients);
+    return clients;
+  }
+
+  /**
+   * Duplicates the shared client with queuing enabled, so subscriptions made
+   * before the connection is ready are not rejected.
+   */
+  private duplicateClient(): Redis | Cluster {
+    const duplicate =
+      this.client instanceof Cluster
+        ? this.client.duplicate(undefined, { enableOfflineQueue: true })
+        : this.client.duplicate({ enableOfflineQueue: true });
+    duplicate.on('error', (err) =>
+      this.logger.error('Redis pub/sub error', err),
+    );
+    return duplicate;
+  }
+
   /**
    * Executes a simple ping to Redis to verify availability.
    * Throws an error if Redis is not responsive.
@@ -94,6 +124,7 @@ export class RedisProvider implements OnApplicationShutdown {
    */
   async onApplicationShutdown() {
     try {
+      await Promise.all(this.pubSubClients.map((client) => client.quit()));
       await this.client.quit();
       this.logger.log('Redis connection gracefully closed');
     } catch (error) {
@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { RawParserOutput } from 'src/types/parsedRawDataTypes';
+import {
+  checkClarityTasks,
+  runClarityTask,
+  TaskLimiter,
+} from '../utils/parse-utils';
+import { ReplayParser } from './replay-parser';
+
+/**
+ * Parses replays with the clarity examples in `parser/clarity-examples`,
+ * running the one-shot `infoRun` and `matchendRun` Gradle tasks for each
+ * replay. Requires a JVM. Every task starts a JVM of its own, so at most
+ * `maxConcurrentTasks` run at once.
+ *
+ * Their output carries no version tag, so it is read as the legacy parser
+ * output format.
+ */
+@Injectable()
+export class ClarityTaskReplayParser extends ReplayParser {
+  private readonly limiter: TaskLimiter;
+
+  constructor(
+    private readonly parseTimeoutMs: number,
+    maxConcurrentTasks: number,
+  ) {
+    super();
+    this.limiter = new TaskLimiter(maxConcurrentTasks);
+  }
+
+  async parse(filePath: string): Promise<RawParserOutput> {
+    const absolutePath = path.resolve(process.cwd(), filePath);
+    const options = { timeoutMs: this.parseTimeoutMs };
+
+    const [info, matchEnd] = await Promise.all([
+      this.limiter.run(() => runClarityTask('infoRun', absolutePath, options)),
+      this.limiter.run(() =>
+        runClarityTask('matchendRun', absolutePath, options),
+      ),
+    ]);
+
+    return { info, matchEnd };
+  }
+
+  async checkHealth(): Promise<Record<string, unknown>> {
+    return {
+      mode: 'task',
+      parserDir: await checkClarityTasks(),
+      ...this.limiter.getStatus(),
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RawParserOutput } from 'src/types/parsedRawDataTypes';
+import { ReplayParser } from './replay-parser';
+
+/**
+ * Reads parser output from JSON fixtures instead of parsing replays, so
+ * replay processing can run without a JVM or real .dem files.
+ *
+ * The replay `<name>.dem` is answered from `<fixturesDir>/<name>.json`,
+ * which holds `{ "version": 2, "info": ..., "matchEnd": [...] }` as the
+ * parser would write it.
+ */
+export class FixtureReplayParser extends ReplayParser {
+  constructor(private readonly fixturesDir: string) {
+    super();
+  }
+
+  async parse(filePath: string): Promise<RawParserOutput> {
+    const name = path.basename(filePath, path.extname(filePath));
+    const fixturePath = path.join(this.fixturesDir, `${name}.json`);
+
+    try {
+      return JSON.parse(
+        await fs.readFile(fixturePath, 'utf8'),
+      ) as RawParserOutput;
+    } catch (error) {
+      throw new Error(
+        `Failed to read replay fixture ${fixturePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async checkHealth(): Promise<Record<string, unknown>> {
+    await fs.access(this.fixturesDir);
+
+    return { fixturesDir: this.fixturesDir };
+  }
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+/**
+ * Version assumed for parser output that carries no `version` tag,
+ * as written by parser builds from before output was versioned.
+ */
+export const LEGACY_PARSER_OUTPUT_VERSION = 1;
+
+// Highest level a hero can reach
+const MAX_HERO_LEVEL = 30;
+
+const countSchema = z.number().int().nonnegative();
+
+/**
+ * Builds the schema of one parser output version. Versions only differ in
+ * how fields are encoded; all of them produce the same `ParsedReplay`.
+ */
+const createParserOutputSchema = <V extends number>(
+  version: V,
+  fields: {
+    steamId: z.ZodType<string, z.ZodTypeDef, unknown>;
+    winner: z.ZodType<string, z.ZodTypeDef, unknown>;
+  },
+) =>
+  z
+    .object({
+      version: z.literal(version),
+      info: z
+        .object({
+          matchId: z.number().int().positive(),
+          duration: countSchema,
+          winner: fields.winner,
+          players: z
+            .array(
+              z
+                .object({
+                  hero: z.string().min(1),
+                  name: z.string(),
+                  steamId: fields.steamId,
+                  team: z.number().int(),
+                })
+                .strict(),
+            )
+            .min(1),
+        })
+        .strict(),
+      matchEnd: z.array(
+        z
+          .object({
+            team: z.enum(['Radiant', 'Dire']),
+            name: z.string(),
+            level: z.number().int().min(1).max(MAX_HERO_LEVEL),
+            kills: countSchema,
+            deaths: countSchema,
+            assists: countSchema,
+            gold: countSchema,
+            lastHits: countSchema,
+            denies: countSchema,
+            steamId: fields.steamId,
+          })
+          .strict(),
+      ),
+    })
+    .strict();
+
+/**
+ * Version 1: Steam IDs as JSON numbers, winner as free text.
+ */
+const parserOutputV1Schema = createParserOutputSchema(1, {
+  steamId: countSchema.transform(String),
+  winner: z.string().min(1),
+});
+
+/**
+ * Version 2: Steam IDs as decimal strings, since 64-bit IDs do not fit in a
+ * JSON number without losing precision, and the winner as a team name.
+ */
+const parserOutputV2Schema = createParserOutputSchema(2, {
+  steamId: z.string().regex(/^\d{1,20}$/, 'Invalid Steam ID'),
+  winner: z.enum(['Radiant', 'Dire']),
+});
+
+/**
+ * Every parser output format the API accepts, told apart by `version`.
+ */
+export const parserOutputSchema = z.discriminatedUnion('version', [
+  parserOutputV1Schema,
+  parserOutputV2Schema,
+]);
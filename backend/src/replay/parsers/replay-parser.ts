@@ -0,0 +1,24 @@
+import { RawParserOutput } from 'src/types/parsedRawDataTypes';
+
+/**
+ * Extracts match data from a replay file.
+ *
+ * Declared as an abstract class so it can be used as the injection token;
+ * ReplayModule picks the implementation from the REPLAY_PARSER setting.
+ */
+export abstract class ReplayParser {
+  /**
+   * Reads the match summary (ID, duration, winner and players with heroes)
+   * and each player's final scoreboard line. The output is not validated
+   * here; ReplayService checks it against the schema of its version.
+   * @param filePath Path to the .dem replay file
+   */
+  abstract parse(filePath: string): Promise<RawParserOutput>;
+
+  /**
+   * Reports whether the parser can take replays, for the health module.
+   * @returns Details about the parser
+   * @throws Error if the parser is unavailable
+   */
+  abstract checkHealth(): Promise<Record<string, unknown>>;
+}
@@ -0,0 +1,232 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import RedisMock from 'ioredis-mock';
+import { RedisProvider } from 'src/redis/redis.provider';
+import { ProcessReplayOptions } from 'src/types/replayTypes';
+import { ReplayGateway } from './replay.gateway';
+import { ReplayQueueService } from './replay-queue.service';
+import { ReplayService } from './replay.service';
+
+const result = {
+  message: 'Replay processed successfully.',
+  matchId: '7000000001',
+  playerCount: 10,
+  duration: 2400,
+  winner: 'Radiant',
+  eventId: null,
+};
+
+describe('ReplayQueueService', () => {
+  let service: ReplayQueueService;
+  let redis: InstanceType<typeof RedisMock>;
+  let replayService: { processReplay: jest.Mock };
+  let replayGateway: { sendJobUpdate: jest.Mock };
+  let filePath: string;
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    replayService = { processReplay: jest.fn().mockResolvedValue(result) };
+    replayGateway = { sendJobUpdate: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReplayQueueService,
+        {
+          provide: RedisProvider,
+          useValue: { getClient: () => redis },
+        },
+        { provide: ReplayService, useValue: replayService },
+        { provide: ReplayGateway, useValue: replayGateway },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, fallback: unknown) => fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReplayQueueService>(ReplayQueueService);
+
+    filePath = path.join(os.tmpdir(), `replay-queue-${Date.now()}.dem`);
+    await fs.writeFile(filePath, 'replay');
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    await fs.rm(filePath, { force: true });
+    jest.clearAllMocks();
+  });
+
+  const fileExists = () =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+
+  describe('enqueue', () => {
+    it('should queue the job and only show it to the uploader', async () => {
+      const job = await service.enqueue(filePath, 'lobby1', 'user1');
+
+      expect(job).toEqual(
+        expect.objectContaining({ status: 'queued', attempts: 0 }),
+      );
+      expect(job).not.toHaveProperty('filePath');
+      expect(replayGateway.sendJobUpdate).toHaveBeenCalledWith(job);
+      await expect(service.getJob(job.id, 'user1')).resolves.toEqual(job);
+      await expect(service.getJob(job.id, 'user2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should push each stage and delete the file when done', async () => {
+      replayService.processReplay.mockImplementationOnce(
+        async (
+          _filePath: string,
+          _lobbyId: string,
+          _uploaderId: string,
+          options: ProcessReplayOptions,
+        ) => {
+          await options.onProgress?.('parsing');
+          await options.onProgress?.('saving');
+          return result;
+        },
+      );
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+
+      await expect(service.processQueue()).resolves.toBe(1);
+
+      const statuses = replayGateway.sendJobUpdate.mock.calls.map(
+        ([job]: [{ status: string }]) => job.status,
+      );
+      expect(statuses).toEqual(['queued', 'parsing', 'saving', 'done']);
+      await expect(service.getJob(id, 'user1')).resolves.toEqual(
+        expect.objectContaining({ status: 'done', attempts: 1, result }),
+      );
+      await expect(fileExists()).resolves.toBe(false);
+      await expect(redis.zcard('{replay:jobs}:processing')).resolves.toBe(0);
+    });
+
+    it('should process several jobs at once', async () => {
+      let finish: () => void = () => undefined;
+      const finished = new Promise<void>((resolve) => (finish = resolve));
+      replayService.processReplay.mockImplementation(async () => {
+        await finished;
+        return result;
+      });
+      await service.enqueue(filePath, 'lobby1', 'user1');
+      await service.enqueue(filePath, 'lobby1', 'user2');
+
+      const processing = service.processQueue();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(replayService.processReplay).toHaveBeenCalledTimes(2);
+      await expect(redis.zcard('{replay:jobs}:processing')).resolves.toBe(2);
+      finish();
+      await expect(processing).resolves.toBe(2);
+    });
+
+    it('should retry transient failures later and keep the file', async () => {
+      replayService.processReplay.mockRejectedValueOnce(
+        new HttpException('Parser crashed', HttpStatus.INTERNAL_SERVER_ERROR),
+      );
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+
+      await service.processQueue();
+
+      await expect(service.getJob(id, 'user1')).resolves.toEqual(
+        expect.objectContaining({
+          status: 'queued',
+          attempts: 1,
+          error: 'Replay processing failed',
+        }),
+      );
+      // The retry is delayed, so nothing is due yet
+      await expect(service.processQueue()).resolves.toBe(0);
+      await expect(fileExists()).resolves.toBe(true);
+    });
+
+    it('should fail invalid replays without retrying', async () => {
+      replayService.processReplay.mockRejectedValueOnce(
+        new ConflictException('Replay 7000000001 already exists'),
+      );
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+
+      await service.processQueue();
+
+      await expect(service.getJob(id, 'user1')).resolves.toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          error: 'Replay 7000000001 already exists',
+        }),
+      );
+      await expect(redis.zcard('{replay:jobs}:queue')).resolves.toBe(0);
+      await expect(fileExists()).resolves.toBe(false);
+    });
+  });
+
+  describe('recoverStalledJobs', () => {
+    // Leaves the job claimed by an instance that died without finishing it
+    const abandonJob = async (jobId: string, attempts: number) => {
+      const stored = JSON.parse(
+        (await redis.get(`replay:job:${jobId}`)) as string,
+      ) as { attempts: number };
+      await redis.set(
+        `replay:job:${jobId}`,
+        JSON.stringify({ ...stored, status: 'parsing', attempts }),
+      );
+      await redis.zrem('{replay:jobs}:queue', jobId);
+      await redis.zadd('{replay:jobs}:processing', Date.now() - 1, jobId);
+    };
+
+    it('should requeue jobs whose lease ran out', async () => {
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+      await abandonJob(id, 1);
+
+      await expect(service.recoverStalledJobs()).resolves.toBe(1);
+
+      await expect(service.getJob(id, 'user1')).resolves.toEqual(
+        expect.objectContaining({
+          status: 'queued',
+          error: 'Replay processing was interrupted',
+        }),
+      );
+      await expect(redis.zcard('{replay:jobs}:processing')).resolves.toBe(0);
+      await expect(service.processQueue()).resolves.toBe(1);
+      await expect(fileExists()).resolves.toBe(false);
+    });
+
+    it('should leave jobs with a running lease alone', async () => {
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+      await abandonJob(id, 1);
+      await redis.zadd('{replay:jobs}:processing', Date.now() + 60_000, id);
+
+      await expect(service.recoverStalledJobs()).resolves.toBe(0);
+      await expect(redis.zcard('{replay:jobs}:processing')).resolves.toBe(1);
+    });
+
+    it('should fail interrupted jobs that used up their attempts', async () => {
+      const { id } = await service.enqueue(filePath, 'lobby1', 'user1');
+      await abandonJob(id, 3);
+
+      await expect(service.recoverStalledJobs()).resolves.toBe(1);
+
+      await expect(service.getJob(id, 'user1')).resolves.toEqual(
+        expect.objectContaining({ status: 'failed' }),
+      );
+      await expect(redis.zcard('{replay:jobs}:queue')).resolves.toBe(0);
+      await expect(fileExists()).resolves.toBe(false);
+    });
+  });
+});
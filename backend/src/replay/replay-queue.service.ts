@@ -0,0 +1,414 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import { RedisProvider } from 'src/redis/redis.provider';
+import { ReplayJob } from 'src/types/replayTypes';
+import { ReplayGateway } from './replay.gateway';
+import { ReplayService } from './replay.service';
+import {
+  DEFAULT_REPLAY_PARSER_CONCURRENCY,
+  REPLAY_JOB_LEASE_MS,
+  REPLAY_JOB_MAX_ATTEMPTS,
+  REPLAY_JOB_RETRY_DELAY_MS,
+  REPLAY_JOB_TTL_SECONDS,
+} from './replay.constants';
+
+// The replay file location is internal to the worker and never exposed
+type StoredReplayJob = ReplayJob & { filePath: string };
+
+// Moves a job between the queue and the processing set, only if it is still
+// in the set it is taken from, so a job has one owner at a time
+const MOVE_JOB_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+  redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Replay Queue Service
+ *
+ * Processes uploaded replays in the background so uploads return at once.
+ * State lives in Redis so every instance sees the same jobs:
+ * - `{replay:jobs}:queue` sorted set of job IDs, scored by when they may run
+ * - `{replay:jobs}:processing` sorted set of claimed job IDs, scored by when
+ *   their lease runs out
+ * - `replay:job:<jobId>` serialized job, expiring a day after its last update
+ *
+ * Jobs are claimed by moving them from the queue to the processing set, so
+ * each runs on one instance, which renews the lease while the job runs. Jobs
+ * whose lease ran out belong to an instance that crashed or was redeployed
+ * and are put back on the queue. Uploaded files must be on storage shared by
+ * all instances. Both sets share a hash tag so the move works on a cluster.
+ */
+@Injectable()
+export class ReplayQueueService {
+  private readonly logger = new Logger(ReplayQueueService.name);
+  private readonly queueKey = '{replay:jobs}:queue';
+  private readonly processingKey = '{replay:jobs}:processing';
+  private readonly concurrency: number;
+  private working = false;
+
+  constructor(
+    private readonly redisProvider: RedisProvider,
+    private readonly replayService: ReplayService,
+    private readonly replayGateway: ReplayGateway,
+    configService: ConfigService,
+  ) {
+    this.concurrency = Number(
+      configService.get<number>(
+        'REPLAY_PARSER_CONCURRENCY',
+        DEFAULT_REPLAY_PARSER_CONCURRENCY,
+      ),
+    );
+  }
+
+  private jobKey(jobId: string): string {
+    return `replay:job:${jobId}`;
+  }
+
+  /**
+   * Queues an uploaded replay for processing.
+   * @param filePath Path to the uploaded .dem file.
+   * @param lobbyId Lobby the replay is recorded for.
+   * @param uploaderId User who uploaded the replay.
+   * @returns The queued job.
+   */
+  async enqueue(
+    filePath: string,
+    lobbyId: string,
+    uploaderId: string,
+  ): Promise<ReplayJob> {
+    const now = new Date().toISOString();
+    const job: StoredReplayJob = {
+      id: randomUUID(),
+      status: 'queued',
+      lobbyId,
+      uploaderId,
+      attempts: 0,
+      error: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      filePath,
+    };
+
+    await this.saveJob(job);
+    await this.redisProvider
+      .getClient()
+      .zadd(this.queueKey, Date.now(), job.id);
+
+    const publicJob = this.toPublicJob(job);
+    this.replayGateway.sendJobUpdate(publicJob);
+
+    return publicJob;
+  }
+
+  /**
+   * Retrieves a replay job for its uploader.
+   * @param jobId The job ID.
+   * @param userId The requesting user ID.
+   * @returns The job.
+   * @throws NotFoundException if the job does not exist or belongs to another user.
+   */
+  async getJob(jobId: string, userId: string): Promise<ReplayJob> {
+    const job = await this.loadJob(jobId);
+
+    if (!job || job.uploaderId !== userId) {
+      throw new NotFoundException('Replay job not found');
+    }
+
+    return this.toPublicJob(job);
+  }
+
+  /**
+   * Runs queued replay jobs until none are due, up to REPLAY_PARSER_CONCURRENCY
+   * at once. Runs on a schedule; a run is skipped while the previous one is
+   * still working, since a single replay can take minutes to parse.
+   * @returns The number of jobs run.
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS, { name: 'process-replay-jobs' })
+  async processQueue(): Promise<number> {
+    if (this.working) {
+      return 0;
+    }
+
+    this.working = true;
+    let processed = 0;
+
+    try {
+      const slots = Array.from({ length: this.concurrency }, async () => {
+        let jobId = await this.claimNextJob();
+
+        while (jobId) {
+          await this.runJob(jobId);
+          processed++;
+          jobId = await this.claimNextJob();
+        }
+      });
+
+      await Promise.all(slots);
+    } catch (error) {
+      // Scheduled jobs have no caller to report to, so log instead of throwing
+      this.logger.error(
+        `Unexpected error during "process replay jobs": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+    } finally {
+      this.working = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Puts jobs whose lease ran out back on the queue, or fails them once they
+   * have used up their attempts, so a replay that keeps taking its instance
+   * down is not retried forever.
+   * @returns The number of jobs recovered.
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'recover-replay-jobs' })
+  async recoverStalledJobs(): Promise<number> {
+    const client = this.redisProvider.getClient();
+    let recovered = 0;
+
+    try {
+      const jobIds = await client.zrangebyscore(
+        this.processingKey,
+        '-inf',
+        Date.now(),
+      );
+
+      for (const jobId of jobIds) {
+        const job = await this.loadJob(jobId);
+
+        if (!job) {
+          await client.zrem(this.processingKey, jobId);
+          continue;
+        }
+
+        if (job.attempts >= REPLAY_JOB_MAX_ATTEMPTS) {
+          if (await client.zrem(this.processingKey, jobId)) {
+            await this.updateJob(job, {
+              status: 'failed',
+              error: 'Replay processing was interrupted',
+            });
+            await this.cleanUpFile(job.filePath);
+            recovered++;
+          }
+          continue;
+        }
+
+        // The status is stored first, so it cannot overwrite the progress of
+        // an instance that picks the job up straight away
+        await this.updateJob(job, {
+          status: 'queued',
+          error: 'Replay processing was interrupted',
+        });
+        if (await this.moveJob(this.processingKey, this.queueKey, jobId, 0)) {
+          this.logger.warn(`Replay job ${jobId} was interrupted, requeued`);
+          recovered++;
+        }
+      }
+    } catch (error) {
+      // Scheduled jobs have no caller to report to, so log instead of throwing
+      this.logger.error(
+        `Unexpected error during "recover replay jobs": ${
+          error instanceof Error ? error.stack : String(error)
+        }`,
+      );
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Moves the next due job from the queue to the processing set. The move
+   * only succeeds on one instance, which then owns the job.
+   * @returns The claimed job ID, or null if no job is due.
+   */
+  private async claimNextJob(): Promise<string | null> {
+    const client = this.redisProvider.getClient();
+
+    for (;;) {
+      const [jobId] = await client.zrangebyscore(
+        this.queueKey,
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        1,
+      );
+
+      if (!jobId) {
+        return null;
+      }
+
+      if (
+        await this.moveJob(
+          this.queueKey,
+          this.processingKey,
+          jobId,
+          Date.now() + REPLAY_JOB_LEASE_MS,
+        )
+      ) {
+        return jobId;
+      }
+    }
+  }
+
+  /**
+   * Moves a job to another set with a new score, if it is still in `from`.
+   * @returns Whether the job was moved.
+   */
+  private async moveJob(
+    from: string,
+    to: string,
+    jobId: string,
+    score: number,
+  ): Promise<boolean> {
+    const moved = await this.redisProvider
+      .getClient()
+      .eval(MOVE_JOB_SCRIPT, 2, from, to, jobId, score);
+
+    return moved === 1;
+  }
+
+  /**
+   * Processes a claimed job, retrying transient failures with a growing delay.
+   * The replay file is deleted once the job is done or has finally failed.
+   */
+  private async runJob(jobId: string): Promise<void> {
+    const client = this.redisProvider.getClient();
+    const job = await this.loadJob(jobId);
+
+    if (!job) {
+      this.logger.warn(`Replay job ${jobId} expired before it could run`);
+      await client.zrem(this.processingKey, jobId);
+      return;
+    }
+
+    job.attempts++;
+
+    // Renews the lease while the replay is processed
+    const heartbeat = setInterval(() => {
+      client
+        .zadd(this.processingKey, 'XX', Date.now() + REPLAY_JOB_LEASE_MS, jobId)
+        .catch((error: Error) =>
+          this.logger.warn(
+            `Failed to renew the lease of replay job ${jobId}: ${error.message}`,
+          ),
+        );
+    }, REPLAY_JOB_LEASE_MS / 4);
+
+    try {
+      const result = await this.replayService.processReplay(
+        job.filePath,
+        job.lobbyId,
+        job.uploaderId,
+        {
+          uploadedAt: new Date(job.createdAt),
+          onProgress: (stage) => this.updateJob(job, { status: stage }),
+        },
+      );
+
+      await this.updateJob(job, { status: 'done', result, error: null });
+      await client.zrem(this.processingKey, jobId);
+      await this.cleanUpFile(job.filePath);
+    } catch (error) {
+      const transient = this.isTransient(error);
+      const message = transient
+        ? 'Replay processing failed'
+        : (error as Error).message;
+
+      if (transient && job.attempts < REPLAY_JOB_MAX_ATTEMPTS) {
+        this.logger.warn(
+          `Replay job ${jobId} failed (attempt ${job.attempts}), retrying`,
+        );
+        await this.updateJob(job, { status: 'queued', error: message });
+        await this.moveJob(
+          this.processingKey,
+          this.queueKey,
+          jobId,
+          Date.now() + REPLAY_JOB_RETRY_DELAY_MS * job.attempts,
+        );
+        return;
+      }
+
+      await this.updateJob(job, { status: 'failed', error: message });
+      await client.zrem(this.processingKey, jobId);
+      await this.cleanUpFile(job.filePath);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Client errors (invalid or duplicate replays) fail the same way on every
+   * attempt; anything else may succeed when retried.
+   */
+  private isTransient(error: unknown): boolean {
+    return !(error instanceof HttpException && error.getStatus() < 500);
+  }
+
+  /**
+   * Applies changes to a job, stores it and pushes it to the uploader.
+   */
+  private async updateJob(
+    job: StoredReplayJob,
+    changes: Partial<ReplayJob>,
+  ): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+
+    await this.saveJob(job);
+
+    this.replayGateway.sendJobUpdate(this.toPublicJob(job));
+  }
+
+  private async saveJob(job: StoredReplayJob): Promise<void> {
+    await this.redisProvider
+      .getClient()
+      .set(
+        this.jobKey(job.id),
+        JSON.stringify(job),
+        'EX',
+        REPLAY_JOB_TTL_SECONDS,
+      );
+  }
+
+  private async loadJob(jobId: string): Promise<StoredReplayJob | null> {
+    const stored = await this.redisProvider.getClient().get(this.jobKey(jobId));
+
+    return stored ? (JSON.parse(stored) as StoredReplayJob) : null;
+  }
+
+  private toPublicJob(job: StoredReplayJob): ReplayJob {
+    const publicJob: Partial<StoredReplayJob> = { ...job };
+    delete publicJob.filePath;
+    return publicJob as ReplayJob;
+  }
+
+  /**
+   * Deletes the replay file once its job is finished.
+   */
+  private async cleanUpFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+      this.logger.log(`Deleted replay file: ${filePath}`);
+    } catch (err) {
+      this.logger.error(
+        `Failed to delete replay file: ${filePath}`,
+        err instanceof Error ? err.stack : String(err),
+      );
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Number of times a replay job is attempted before it is marked as failed.
+ * Only transient failures (server errors) are retried.
+ */
+export const REPLAY_JOB_MAX_ATTEMPTS = 3;
+
+/**
+ * Delay before a failed replay job is retried, multiplied by the number of
+ * attempts made so far.
+ */
+export const REPLAY_JOB_RETRY_DELAY_MS = 30_000;
+
+/**
+ * How long a claimed replay job stays owned by its instance without a
+ * heartbeat. Jobs of instances that crashed are put back on the queue once
+ * their lease runs out.
+ */
+export const REPLAY_JOB_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Number of seconds a replay job's status is kept in Redis after its last update.
+ */
+export const REPLAY_JOB_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Default number of replays the replay queue of each instance parses at once.
+ * Override with REPLAY_PARSER_CONCURRENCY.
+ */
+export const DEFAULT_REPLAY_PARSER_CONCURRENCY = 2;
+
+/**
+ * Default number of milliseconds a single replay parse may take before it is
+ * abandoned and its Gradle task killed. Override with REPLAY_PARSE_TIMEOUT_MS.
+ */
+export const DEFAULT_REPLAY_PARSE_TIMEOUT_MS = 3 * 60 * 1000;
+
+/**
+ * Default number of parser Gradle tasks run at once by each instance. Every
+ * task starts its own JVM, and a replay takes two of them. Override with
+ * REPLAY_PARSER_MAX_TASKS.
+ */
+export const DEFAULT_REPLAY_PARSER_MAX_TASKS = 2;
@@ -6,9 +6,13 @@ import {
   BadRequestException,
   UseGuards,
   Req,
+  Get,
+  Param,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ReplayService } from './replay.service';
+import { ReplayQueueService } from './replay-queue.service';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 import * as fs from 'fs';
@@ -24,16 +28,17 @@ import { CanUploadReplayGuard } from 'src/lobby/guards/upload-replay.guard';
  * - Secure file upload handling
  * - Lobby membership verification
  * - File validation and storage
+ * - Background processing with pollable job status
  */
 @Controller('replay')
 export class ReplayController {
-  constructor(private readonly replayService: ReplayService) {}
+  constructor(private readonly replayQueueService: ReplayQueueService) {}
 
   /**
-   * Upload and process a replay file
+   * Upload a replay file and queue it for processing
    * @param file - Uploaded replay file (.dem format)
    * @param req - Authenticated request with user/lobby context
-   * @returns Processing result
+   * @returns The queued job; progress is pushed to the uploader's socket room
    *
    * @protected Requires:
    * - JWT authentication
@@ -46,6 +51,7 @@ export class ReplayController {
    * - Generates unique filenames
    */
   @Post('upload')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard, CanUploadReplayGuard)
   @UseInterceptors(
     FileInterceptor('replay', {
@@ -90,7 +96,27 @@ export class ReplayController {
       throw new BadRequestException('No valid replay file uploaded.');
     }
 
-    // Process the replay file
-    return await this.replayService.processReplay(file.path, lobbyId);
+    // Queue the replay file for processing
+    return await this.replayQueueService.enqueue(
+      file.path,
+      lobbyId,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Retrieve the status of a replay processing job
+   * @param id - Job ID returned by the upload
+   * @param req - Authenticated request with user context
+   * @returns The job, including the processing result once done
+   *
+   * @protected Requires:
+   * - JWT authentication
+   * - Being the uploader of the replay
+   */
+  @Get('jobs/:id')
+  @UseGuards(JwtAuthGuard)
+  getJob(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    return this.replayQueueService.getJob(id, req.user.id);
   }
 }
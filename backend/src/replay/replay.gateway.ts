@@ -0,0 +1,26 @@
+import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Server } from 'socket.io';
+import { LOBBY_GATEWAY_OPTIONS } from 'src/lobby/lobby.constants';
+import { ReplayJob } from 'src/types/replayTypes';
+
+/**
+ * Pushes replay processing progress to uploaders over the `lobby` namespace.
+ * Connections and rooms are managed by `LobbyGateway`, which places every
+ * authenticated socket in its `user-<id>` room.
+ */
+@WebSocketGateway(LOBBY_GATEWAY_OPTIONS)
+export class ReplayGateway {
+  @WebSocketServer()
+  private server!: Server;
+
+  /**
+   * Sends the current state of a replay job to its uploader.
+   * @param job - The replay job.
+   */
+  sendJobUpdate(job: ReplayJob): void {
+    this.server.to(`user-${job.uploaderId}`).emit('replay-job', {
+      ...job,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
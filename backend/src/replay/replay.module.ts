@@ -1,11 +1,62 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ReplayService } from './replay.service';
 import { ReplayController } from './replay.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { AuditModule } from 'src/audit/audit.module';
+import { RedisModule } from 'src/redis/redis.module';
+import { ReplayQueueService } from './replay-queue.service';
+import { ReplayGateway } from './replay.gateway';
+import { ReplayParser } from './parsers/replay-parser';
+import { ClarityTaskReplayParser } from './parsers/clarity-task-replay.parser';
+import { FixtureReplayParser } from './parsers/fixture-replay.parser';
+import {
+  DEFAULT_REPLAY_PARSE_TIMEOUT_MS,
+  DEFAULT_REPLAY_PARSER_MAX_TASKS,
+} from './replay.constants';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuditModule, RedisModule],
   controllers: [ReplayController],
-  providers: [ReplayService],
+  providers: [
+    ReplayService,
+    ReplayQueueService,
+    ReplayGateway,
+    {
+      // REPLAY_PARSER=fixture answers uploads from JSON in REPLAY_FIXTURES_DIR,
+      // anything else runs one Gradle task per extraction
+      provide: ReplayParser,
+      useFactory: (configService: ConfigService) => {
+        const parseTimeoutMs = Number(
+          configService.get<number>(
+            'REPLAY_PARSE_TIMEOUT_MS',
+            DEFAULT_REPLAY_PARSE_TIMEOUT_MS,
+          ),
+        );
+
+        switch (configService.get<string>('REPLAY_PARSER')) {
+          case 'fixture':
+            return new FixtureReplayParser(
+              configService.get<string>(
+                'REPLAY_FIXTURES_DIR',
+                'src/replay/fixtures',
+              ),
+            );
+          default:
+            return new ClarityTaskReplayParser(
+              parseTimeoutMs,
+              Number(
+                configService.get<number>(
+                  'REPLAY_PARSER_MAX_TASKS',
+                  DEFAULT_REPLAY_PARSER_MAX_TASKS,
+                ),
+              ),
+            );
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [ReplayParser],
 })
 export class ReplayModule {}
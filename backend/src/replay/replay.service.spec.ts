@@ -0,0 +1,251 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LobbyAuditAction, Player } from '@prisma/client';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { AuditService } from 'src/audit/audit.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { FixtureReplayParser } from './parsers/fixture-replay.parser';
+import { parserOutputSchema } from './parsers/parser-output.schema';
+import { ReplayParser } from './parsers/replay-parser';
+import { ReplayService } from './replay.service';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const { info, matchEnd } = parserOutputSchema.parse(
+  JSON.parse(readFileSync(path.join(FIXTURES_DIR, '7000000001.json'), 'utf8')),
+);
+
+const createMockPlayer = (overrides: Partial<Player> = {}): Player =>
+  ({
+    steamId: matchEnd[0].steamId,
+    playerName: 'Blade',
+    totalGames: 1,
+    totalKills: 6,
+    totalDeaths: 5,
+    totalAssists: 3,
+    totalNetworth: 15150,
+    avgKills: 6,
+    avgDeaths: 5,
+    avgAssists: 3,
+    avgNetworth: 15150,
+    ...overrides,
+  }) as Player;
+
+describe('ReplayService', () => {
+  let service: ReplayService;
+  let replayParser: FixtureReplayParser;
+  let prisma: {
+    $transaction: jest.Mock;
+    lobbyGame: { findUnique: jest.Mock; create: jest.Mock };
+    lobbyEvent: { findFirst: jest.Mock };
+    player: { findMany: jest.Mock; upsert: jest.Mock };
+  };
+  let auditService: { record: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      $transaction: jest.fn((callback: (tx: unknown) => Promise<unknown>) =>
+        callback(prisma),
+      ),
+      lobbyGame: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'game1' }),
+      },
+      lobbyEvent: { findFirst: jest.fn().mockResolvedValue(null) },
+      player: {
+        findMany: jest.fn().mockResolvedValue([createMockPlayer()]),
+        upsert: jest.fn(),
+      },
+    };
+    auditService = { record: jest.fn() };
+    replayParser = new FixtureReplayParser(FIXTURES_DIR);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReplayService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditService, useValue: auditService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: ReplayParser, useValue: replayParser },
+      ],
+    }).compile();
+
+    service = module.get<ReplayService>(ReplayService);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('processReplay', () => {
+    it('should save the game, its player stats and the uploader audit entry', async () => {
+      const onProgress = jest.fn().mockResolvedValue(undefined);
+
+      const result = await service.processReplay(
+        'temp/7000000001.dem',
+        'lobby1',
+        'user1',
+        { onProgress },
+      );
+
+      expect(result).toEqual({
+        message: 'Replay processed successfully.',
+        matchId: '7000000001',
+        playerCount: 4,
+        duration: info.duration,
+        winner: 'Radiant',
+        eventId: null,
+      });
+      expect(onProgress.mock.calls).toEqual([['parsing'], ['saving']]);
+      expect(prisma.lobbyGame.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            matchId: '7000000001',
+            lobby: { connect: { id: 'lobby1' } },
+            playerStats: {
+              create: expect.arrayContaining([
+                expect.objectContaining({
+                  steamId: matchEnd[2].steamId,
+                  heroName: 'npc_dota_hero_pudge',
+                  gameTeam: 'Dire',
+                  networth: matchEnd[2].gold,
+                }),
+              ]),
+            },
+          }),
+        }),
+      );
+      expect(auditService.record).toHaveBeenCalledWith({
+        lobbyId: 'lobby1',
+        action: LobbyAuditAction.REPLAY_UPLOADED,
+        actorId: 'user1',
+        payload: { gameId: 'game1', matchId: '7000000001', eventId: null },
+      });
+    });
+
+    it('should add to existing players and create new ones', async () => {
+      await service.processReplay('temp/7000000001.dem', 'lobby1', 'user1');
+
+      expect(prisma.player.upsert).toHaveBeenCalledTimes(4);
+      expect(prisma.player.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { steamId: matchEnd[0].steamId },
+          update: expect.objectContaining({
+            totalGames: 2,
+            totalKills: { increment: 12 },
+            avgKills: 9,
+            avgNetworth: 20000,
+          }),
+        }),
+      );
+      expect(prisma.player.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { steamId: matchEnd[1].steamId },
+          create: expect.objectContaining({
+            playerName: 'Frost',
+            totalGames: 1,
+            avgAssists: 21,
+          }),
+        }),
+      );
+    });
+
+    it('should link the game to the event running at upload time', async () => {
+      const uploadedAt = new Date('2026-10-23T20:00:00Z');
+      prisma.lobbyEvent.findFirst.mockResolvedValueOnce({ id: 'event1' });
+
+      const result = await service.processReplay(
+        'temp/7000000001.dem',
+        'lobby1',
+        'user1',
+        { uploadedAt },
+      );
+
+      expect(result.eventId).toBe('event1');
+      expect(prisma.lobbyEvent.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            lobbyId: 'lobby1',
+            startsAt: { lte: uploadedAt },
+            endsAt: { gte: uploadedAt },
+          },
+        }),
+      );
+      expect(prisma.lobbyGame.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            event: { connect: { id: 'event1' } },
+          }),
+        }),
+      );
+    });
+
+    it('should accept output from newer parser versions', async () => {
+      const result = await service.processReplay(
+        'temp/7000000003.dem',
+        'lobby1',
+        'user1',
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ matchId: '7000000003', winner: 'Dire' }),
+      );
+      expect(prisma.player.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { steamId: '76561198000000021' } }),
+      );
+    });
+
+    it('should reject parser output that fails its schema with every issue', async () => {
+      const error = await service
+        .processReplay('temp/invalid-parser-output.dem', 'lobby1', 'user1')
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).message).toContain(
+        'Invalid parser output (version 1): matchEnd.0.kills',
+      );
+      expect((error as BadRequestException).getResponse()).toEqual(
+        expect.objectContaining({
+          errors: expect.arrayContaining([
+            expect.objectContaining({ path: ['matchEnd', 0, 'kills'] }),
+            expect.objectContaining({ path: ['matchEnd', 1, 'gold'] }),
+          ]),
+        }),
+      );
+      expect(prisma.lobbyGame.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown parser output versions', async () => {
+      jest
+        .spyOn(replayParser, 'parse')
+        .mockResolvedValueOnce({ version: 3, info, matchEnd });
+
+      await expect(
+        service.processReplay('temp/7000000001.dem', 'lobby1', 'user1'),
+      ).rejects.toThrow('Invalid parser output (version 3)');
+      expect(prisma.lobbyGame.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject replays whose parsed data is inconsistent', async () => {
+      await expect(
+        service.processReplay(
+          'temp/player-count-mismatch.dem',
+          'lobby1',
+          'user1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.lobbyGame.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject replays that were already uploaded', async () => {
+      prisma.lobbyGame.findUnique.mockResolvedValueOnce({ id: 'game0' });
+
+      await expect(
+        service.processReplay('temp/7000000001.dem', 'lobby1', 'user1'),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
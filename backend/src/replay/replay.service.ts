@@ -6,17 +6,27 @@ import {
   Injectable,
   Logger,
 } from '@nestjs/common';
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { parseMatchInfo, parseMatchEnd } from './utils/parse-utils';
+import { ReplayParser } from './parsers/replay-parser';
+import {
+  LEGACY_PARSER_OUTPUT_VERSION,
+  parserOutputSchema,
+} from './parsers/parser-output.schema';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { ParsedRawInfo, ParsedRawMatchend } from 'src/types/parsedRawDataTypes';
-import { Player, Prisma } from '@prisma/client';
+import {
+  ParsedRawInfo,
+  ParsedRawMatchend,
+  ParsedReplay,
+  RawParserOutput,
+} from 'src/types/parsedRawDataTypes';
+import { LobbyAuditAction, Player, Prisma } from '@prisma/client';
 import {
   CurrentGamePlayerStats,
+  ProcessReplayOptions,
   ProcessReplayResponse,
 } from 'src/types/replayTypes';
 import { ConfigService } from '@nestjs/config';
+import { AuditService } from 'src/audit/audit.service';
 
 @Injectable()
 export class ReplayService {
@@ -25,27 +35,36 @@ export class ReplayService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
+    private auditService: AuditService,
+    private replayParser: ReplayParser,
   ) {}
 
   /**
    * Processes a Dota 2 replay file, extracts match data, and saves it to the database
    * @param filePath Path to the .dem replay file
+   * @param lobbyId Lobby the replay is recorded for
+   * @param uploaderId User who uploaded the replay, recorded in the lobby audit log
+   * @param options.uploadedAt When the replay was uploaded, used to link it to a lobby event (defaults to now)
+   * @param options.onProgress Called when processing moves on to parsing and to saving
    * @returns Promise<void>
+   * @throws BadRequestException if the parser output or the match data is invalid
    * @throws ConflictException if replay already exists
    * @throws HttpException if processing fails
    */
   async processReplay(
     filePath: string,
     lobbyId: string,
+    uploaderId: string,
+    { uploadedAt = new Date(), onProgress }: ProcessReplayOptions = {},
   ): Promise<ProcessReplayResponse> {
     try {
       this.logger.log(`Processing replay file: ${filePath}`);
+      await onProgress?.('parsing');
 
-      // Parse replay data - these run sequentially to ensure proper error handling
-      const [matchInfo, matchEnd] = await Promise.all([
-        parseMatchInfo(filePath),
-        parseMatchEnd(filePath),
-      ]);
+      // Parse match info and match end data in a single pass
+      const { info: matchInfo, matchEnd } = this.validateParserOutput(
+        await this.replayParser.parse(filePath),
+      );
 
       // Validate data consistency before processing
       this.validateMatchData(matchInfo, matchEnd);
@@ -57,25 +76,65 @@ export class ReplayService {
         );
       }
 
+      // Replays are linked to the event running when they were uploaded, not when parsing ends
+      const eventId = await this.findEventAt(lobbyId, uploadedAt);
+      await onProgress?.('saving');
+
       // Process in a transaction to ensure atomicity
-      await this.processMatchData(matchInfo, matchEnd, lobbyId);
+      const gameId = await this.processMatchData(
+        matchInfo,
+        matchEnd,
+        lobbyId,
+        eventId,
+      );
 
       this.logger.log(`Successfully processed replay: ${matchInfo.matchId}`);
 
+      await this.auditService.record({
+        lobbyId,
+        action: LobbyAuditAction.REPLAY_UPLOADED,
+        actorId: uploaderId,
+        payload: { gameId, matchId: String(matchInfo.matchId), eventId },
+      });
+
       return {
         message: 'Replay processed successfully.',
         matchId: String(matchInfo.matchId),
         playerCount: matchInfo.players.length,
         duration: matchInfo.duration,
         winner: matchInfo.winner,
+        eventId,
       } as ProcessReplayResponse;
     } catch (err) {
       throw this.transformError(err);
-    } finally {
-      await this.cleanUpFile(filePath);
     }
   }
 
+  /**
+   * Checks parser output against the schema of its version, so malformed
+   * values never reach the database
+   * @throws BadRequestException listing every issue found
+   */
+  private validateParserOutput(output: RawParserOutput): ParsedReplay {
+    const version = output.version ?? LEGACY_PARSER_OUTPUT_VERSION;
+    const result = parserOutputSchema.safeParse({ ...output, version });
+
+    if (!result.success) {
+      const summary = result.error.errors
+        .slice(0, 3)
+        .map((issue) => `${issue.path.join('.') || 'output'}: ${issue.message}`)
+        .join('; ');
+
+      throw new BadRequestException({
+        statusCode: 400,
+        message: `Invalid parser output (version ${version}): ${summary}`,
+        errors: result.error.errors,
+      });
+    }
+
+    return result.data;
+  }
+
   /**
    * Validates consistency between match info and end data
    * @throws Error if data is inconsistent
@@ -103,15 +162,31 @@ export class ReplayService {
     }
   }
 
+  /**
+   * Finds the lobby event whose window contains the given time
+   * @returns The event ID, or null if no event was running
+   */
+  private async findEventAt(lobbyId: string, at: Date): Promise<string | null> {
+    const event = await this.prisma.lobbyEvent.findFirst({
+      where: { lobbyId, startsAt: { lte: at }, endsAt: { gte: at } },
+      orderBy: { startsAt: 'desc' },
+      select: { id: true },
+    });
+
+    return event?.id ?? null;
+  }
+
   /**
    * Processes and saves match data in a transaction
+   * @returns The ID of the created lobby game
    */
   private async processMatchData(
     matchInfo: ParsedRawInfo,
     matchEnd: ParsedRawMatchend[],
     lobbyId: string,
-  ): Promise<void> {
-    await this.prisma.$transaction(async (prisma) => {
+    eventId: string | null,
+  ): Promise<string> {
+    return this.prisma.$transaction(async (prisma) => {
       // First create the game with all player stats
       const createdGame = await prisma.lobbyGame.create({
         data: {
@@ -121,6 +196,7 @@ export class ReplayService {
           lobby: {
             connect: { id: lobbyId },
           },
+          ...(eventId && { event: { connect: { id: eventId } } }),
           playerStats: {
             create: this.preparePlayerStatsData(matchInfo, matchEnd),
           },
@@ -131,6 +207,8 @@ export class ReplayService {
 
       // Then update player aggregates in bulk
       await this.updatePlayerAggregates(prisma, matchEnd);
+
+      return createdGame.id;
     });
   }
 
@@ -142,7 +220,7 @@ export class ReplayService {
     matchEnd: ParsedRawMatchend[],
   ): Promise<void> {
     // Get all steamIds first
-    const steamIds = matchEnd.map((player) => String(player.steamId));
+    const steamIds = matchEnd.map((player) => player.steamId);
 
     // Fetch existing players in single query
     const existingPlayers = await prisma.player.findMany({
@@ -152,7 +230,7 @@ export class ReplayService {
 
     // Prepare all update operations
     const updateOperations = matchEnd.map((player) => {
-      const steamId = String(player.steamId);
+      const steamId = player.steamId;
       const existingPlayer = playerMap.get(steamId);
       const currentStats = this.createCurrentGamePlayerData(player);
 
@@ -172,7 +250,7 @@ export class ReplayService {
    */
   private createCurrentGamePlayerData(player: ParsedRawMatchend) {
     return {
-      steamId: String(player.steamId),
+      steamId: player.steamId,
       playerName: player.name,
       kills: player.kills,
       deaths: player.deaths,
@@ -253,7 +331,7 @@ export class ReplayService {
       }
 
       return {
-        steamId: String(playerInfo.steamId),
+        steamId: playerInfo.steamId,
         playerName: playerInfo.name,
         heroName: playerInfo.hero,
         gameTeam: endData.team === 'Radiant' ? 'Radiant' : 'Dire',
@@ -272,8 +350,11 @@ export class ReplayService {
    * Handles errors during replay processing
    */
   private transformError(error: Error): HttpException {
-    // Preserve ConflictException with its original message
-    if (error instanceof ConflictException) {
+    // Preserve ConflictException and BadRequestException with their original response
+    if (
+      error instanceof ConflictException ||
+      error instanceof BadRequestException
+    ) {
       return error;
     }
 
@@ -310,18 +391,6 @@ export class ReplayService {
     return !!game;
   }
 
-  /**
-   * Cleans up the replay file after processing
-   */
-  private async cleanUpFile(filePath: string): Promise<void> {
-    try {
-      await fs.unlink(filePath);
-      this.logger.log(`Deleted replay file: ${filePath}`);
-    } catch (err: any) {
-      this.logger.error(`Failed to delete replay file: ${filePath}`, err.stack);
-    }
-  }
-
   /**
    * Extracts match ID from file path
    */
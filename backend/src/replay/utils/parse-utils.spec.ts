@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runClarityTask, TaskLimiter } from './parse-utils';
+
+// Stand-in for the clarity examples' gradlew: prints Gradle noise that looks
+// like JSON, and writes the requested task's JSON to the output file only
+const FAKE_GRADLEW = `#!${process.execPath}
+const fs = require('fs');
+const args = process.argv.slice(2);
+const outputFile = args
+  .find((arg) => arg.startsWith('-PreplayOutputFile='))
+  .slice('-PreplayOutputFile='.length);
+const task = args[args.indexOf('--args') - 1];
+const replayPath = args[args.indexOf('--args') + 1];
+console.log('> Task :' + task + ' {"decoy":true}');
+if (replayPath.includes('hang')) setTimeout(() => undefined, 60000);
+else if (replayPath.includes('broken')) console.log('BUILD FAILED');
+else if (replayPath.includes('garbled')) fs.writeFileSync(outputFile, '{"task"');
+else fs.writeFileSync(outputFile, JSON.stringify({ task, replayPath }));
+`;
+
+describe('runClarityTask', () => {
+  let cwd: string;
+
+  beforeAll(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'clarity-'));
+    await fs.writeFile(path.join(cwd, 'gradlew'), FAKE_GRADLEW, {
+      mode: 0o755,
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should return the JSON written to the output file', async () => {
+    await expect(
+      runClarityTask('infoRun', '/replays/my replay.dem', {
+        timeoutMs: 5000,
+        cwd,
+      }),
+    ).resolves.toEqual({
+      task: 'infoRun',
+      replayPath: '"/replays/my replay.dem"',
+    });
+  });
+
+  it('should fail when the task writes no output', async () => {
+    await expect(
+      runClarityTask('matchendRun', '/replays/broken.dem', {
+        timeoutMs: 5000,
+        cwd,
+      }),
+    ).rejects.toThrow('Failed to run matchendRun: it wrote no output');
+  });
+
+  it('should fail when the output is not JSON', async () => {
+    await expect(
+      runClarityTask('infoRun', '/replays/garbled.dem', {
+        timeoutMs: 5000,
+        cwd,
+      }),
+    ).rejects.toThrow('Failed to run infoRun: unreadable JSON in its output');
+  });
+
+  it('should kill tasks that exceed the timeout', async () => {
+    await expect(
+      runClarityTask('infoRun', '/replays/hang.dem', { timeoutMs: 300, cwd }),
+    ).rejects.toThrow('Failed to run infoRun: timed out after 300ms');
+  });
+
+  it('should refuse paths that cannot be passed to Gradle', async () => {
+    await expect(
+      runClarityTask('infoRun', '/replays/"1".dem', { timeoutMs: 5000, cwd }),
+    ).rejects.toThrow('Invalid replay path');
+  });
+});
+
+describe('TaskLimiter', () => {
+  it('should queue tasks beyond the concurrency limit', async () => {
+    const limiter = new TaskLimiter(1);
+    const finishers: (() => void)[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) =>
+      limiter.run(
+        () =>
+          new Promise<string>((resolve) => finishers.push(() => resolve(name))),
+      ),
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(limiter.getStatus()).toEqual({ active: 1, queued: 2 });
+    expect(finishers).toHaveLength(1);
+
+    for (let i = 0; i < 3; i++) {
+      finishers[i]();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    await expect(Promise.all(tasks)).resolves.toEqual(['a', 'b', 'c']);
+    expect(limiter.getStatus()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('should free the slot of a task that fails', async () => {
+    const limiter = new TaskLimiter(1);
+
+    await expect(
+      limiter.run(() => Promise.reject(new Error('boom'))),
+    ).rejects.toThrow('boom');
+    await expect(limiter.run(() => Promise.resolve('next'))).resolves.toBe(
+      'next',
+    );
+  });
+});
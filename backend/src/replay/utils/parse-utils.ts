@@ -1,11 +1,8 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import * as path from 'path';
-import { promises as fs } from 'fs';
-import { promisify } from 'util';
 import * as os from 'os';
-import { ParsedRawInfo, ParsedRawMatchend } from 'src/types/parsedRawDataTypes';
-
-const execAsync = promisify(exec);
+import { promisify } from 'util';
+import { promises as fs } from 'fs';
 
 // Absolute path to the directory containing gradlew.bat
 const gradlewBatPath = path.resolve(process.cwd(), 'parser/clarity-examples');
@@ -14,82 +11,177 @@ const gradlewBatPath = path.resolve(process.cwd(), 'parser/clarity-examples');
 const isWindows = os.platform() === 'win32';
 const gradlewExecutable = isWindows ? 'gradlew.bat' : 'gradlew';
 
-// Helper function to filter out unwanted text and extract JSON data
-function extractJsonOutput(output: string): string | null {
-  // Regular expression to extract JSON from the Gradle output
-  const jsonMatch = output.match(/(\{.*\}|\[.*\])/s); // Matches the first JSON object or array, accounting for potential nested structures
-
-  if (jsonMatch) {
-    return jsonMatch[0]; // Return the matched JSON string
+// Init script sending a task's program output to its own file
+const outputInitScriptPath = path.resolve(
+  process.cwd(),
+  'parser/replay-output.init.gradle',
+);
+
+// Largest output read from a parser task; a parsed replay is well under 1 MB
+const MAX_PARSER_OUTPUT_LENGTH = 8 * 1024 * 1024;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Rejects replay paths that are relative or could break out of an argument.
+ * @throws Error if the path is not absolute or contains control characters
+ */
+function assertReplayPath(filePath: string): void {
+  // eslint-disable-next-line no-control-regex
+  if (!path.isAbsolute(filePath) || /[\x00-\x1f]/.test(filePath)) {
+    throw new Error('Invalid replay path');
   }
-  return null;
 }
 
-export async function parseMatchInfo(filePath: string) {
-  try {
-    const absoluteFilePath = path.resolve(process.cwd(), filePath);
-    console.log('Processing file:', absoluteFilePath);
-
-    // Verify if replay file exist
-    await fs.access(absoluteFilePath);
+/**
+ * Builds the command running a Gradle task of the clarity examples in `cwd`.
+ * .bat files cannot be spawned directly, so on Windows they run through
+ * cmd.exe with fixed arguments rather than with `shell: true`.
+ */
+function gradleCommand(
+  cwd: string,
+  args: string[],
+): { command: string; args: string[] } {
+  const gradlew = path.join(cwd, gradlewExecutable);
+
+  return isWindows
+    ? { command: 'cmd.exe', args: ['/d', '/c', gradlew, ...args] }
+    : { command: gradlew, args };
+}
 
-    const command = `${gradlewExecutable} infoRun --args "\\"${absoluteFilePath}\\""`; // Command for Gradle run
+/**
+ * Runs one of the clarity examples' one-shot Gradle tasks on a replay and
+ * returns the JSON it writes. Each run starts its own JVM.
+ *
+ * The task runs with `parser/replay-output.init.gradle`, which sends the
+ * program's output to a file of its own; only that file is read, so Gradle
+ * and JVM output on stdout is never taken for the result.
+ * @param task `infoRun` for the match summary, `matchendRun` for the scoreboard
+ * @param filePath Absolute path to the .dem replay file
+ * @param options.timeoutMs How long the task may run before it is killed
+ * @param options.cwd Directory holding gradlew (defaults to the clarity examples)
+ * @returns The unvalidated JSON written by the task
+ * @throws Error if the path is invalid, the task fails or writes no JSON
+ */
+export async function runClarityTask(
+  task: 'infoRun' | 'matchendRun',
+  filePath: string,
+  { timeoutMs, cwd = gradlewBatPath }: { timeoutMs: number; cwd?: string },
+): Promise<unknown> {
+  assertReplayPath(filePath);
+  // Gradle splits --args itself, so the path is quoted for it
+  if (filePath.includes('"')) {
+    throw new Error('Invalid replay path');
+  }
 
-    console.log('Executing:', command);
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-parse-'));
+  const outputPath = path.join(outputDir, `${task}.json`);
 
-    const { stdout, stderr } = await execAsync(command, {
-      cwd: gradlewBatPath,
-      windowsHide: true,
-    });
+  try {
+    const { command, args } = gradleCommand(cwd, [
+      '--quiet',
+      '--init-script',
+      outputInitScriptPath,
+      `-PreplayOutputFile=${outputPath}`,
+      task,
+      '--args',
+      `"${filePath}"`,
+    ]);
+
+    try {
+      await execFileAsync(command, args, {
+        cwd,
+        windowsHide: true,
+        timeout: timeoutMs,
+        maxBuffer: MAX_PARSER_OUTPUT_LENGTH,
+      });
+    } catch (error) {
+      const { killed, message } = error as {
+        killed?: boolean;
+        message: string;
+      };
+      throw new Error(
+        `Failed to run ${task}: ${killed ? `timed out after ${timeoutMs}ms` : message}`,
+      );
+    }
 
-    if (stderr) {
-      console.error('Gradle stderr:', stderr);
-      throw new Error(stderr);
+    const output = await fs.stat(outputPath).catch(() => null);
+    if (!output?.size) {
+      throw new Error(`Failed to run ${task}: it wrote no output`);
+    }
+    if (output.size > MAX_PARSER_OUTPUT_LENGTH) {
+      throw new Error(
+        `Failed to run ${task}: its output exceeds ${MAX_PARSER_OUTPUT_LENGTH} bytes`,
+      );
     }
 
-    // Extract only JSON output from stdout
-    const jsonString = extractJsonOutput(stdout);
-    if (jsonString) {
-      const jsonData: ParsedRawInfo = JSON.parse(jsonString) as ParsedRawInfo;
-      console.log('Parsed Match Info:', jsonData);
-      return jsonData;
-    } else {
-      throw new Error('Failed to extract JSON from Gradle output.');
+    try {
+      return JSON.parse(await fs.readFile(outputPath, 'utf8')) as unknown;
+    } catch {
+      throw new Error(`Failed to run ${task}: unreadable JSON in its output`);
     }
-  } catch (error) {
-    console.error('Gradle execution failed:', error);
-    throw new Error(`Failed to parse match info: ${error.message}`);
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true });
   }
 }
 
-export async function parseMatchEnd(filePath: string) {
-  try {
-    const absoluteFilePath = path.resolve(process.cwd(), filePath);
-    const command = `${gradlewExecutable} matchendRun --args "\\"${absoluteFilePath}\\""`; // Command for Gradle run
+/**
+ * Limits how many parser tasks run at once; the rest wait their turn in
+ * the order they came in.
+ */
+export class TaskLimiter {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  constructor(private readonly maxConcurrency: number) {}
+
+  /**
+   * Runs a task as soon as fewer than `maxConcurrency` others are running.
+   * @param task The task to run
+   * @returns What the task resolves to
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
 
-    const { stdout, stderr } = await execAsync(command, {
-      cwd: gradlewBatPath,
-      windowsHide: true,
-    });
+  getStatus(): { active: number; queued: number } {
+    return { active: this.active, queued: this.waiting.length };
+  }
 
-    if (stderr) {
-      console.error('Gradle stderr:', stderr);
-      throw new Error(stderr);
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
     }
 
-    // Extract only JSON output from stdout
-    const jsonString = extractJsonOutput(stdout);
-    if (jsonString) {
-      const jsonData: ParsedRawMatchend[] = JSON.parse(
-        jsonString,
-      ) as ParsedRawMatchend[];
-      console.log('Parsed Match End:', jsonData);
-      return jsonData;
+    // The releasing task hands its slot straight to the next one in line
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+
+    if (next) {
+      next();
     } else {
-      throw new Error('Failed to extract JSON from Gradle output.');
+      this.active--;
     }
-  } catch (error) {
-    console.error('Gradle execution failed:', error);
-    throw new Error(`Failed to parse match end: ${error.message}`);
   }
 }
+
+/**
+ * Checks that the clarity examples' Gradle wrapper is in place.
+ * @returns The directory the Gradle tasks run in
+ * @throws Error if gradlew is missing
+ */
+export async function checkClarityTasks(): Promise<string> {
+  await fs.access(path.join(gradlewBatPath, gradlewExecutable));
+
+  return gradlewBatPath;
+}
@@ -8,7 +8,7 @@ export type ParsedRawMatchend = {
   gold: number;
   lastHits: number;
   denies: number;
-  steamId: number;
+  steamId: string;
 };
 
 export type ParsedRawInfo = {
@@ -18,7 +18,23 @@ export type ParsedRawInfo = {
   players: {
     hero: string;
     name: string;
-    steamId: number;
+    steamId: string;
     team: number;
   }[];
 };
+
+export type ParsedReplay = {
+  version: number;
+  info: ParsedRawInfo;
+  matchEnd: ParsedRawMatchend[];
+};
+
+/**
+ * Parser output as read from the parser, before it is validated.
+ * `version` is missing from output written by older parser builds.
+ */
+export type RawParserOutput = {
+  version?: number;
+  info: unknown;
+  matchEnd: unknown;
+};
@@ -15,4 +15,26 @@ export type ProcessReplayResponse = {
   playerCount: number;
   duration: number;
   winner: string;
+  eventId: string | null;
+};
+
+export type ReplayJobStage = 'parsing' | 'saving';
+
+export type ReplayJobStatus = 'queued' | ReplayJobStage | 'done' | 'failed';
+
+export type ProcessReplayOptions = {
+  uploadedAt?: Date;
+  onProgress?: (stage: ReplayJobStage) => Promise<void>;
+};
+
+export type ReplayJob = {
+  id: string;
+  status: ReplayJobStatus;
+  lobbyId: string;
+  uploaderId: string;
+  attempts: number;
+  error: string | null;
+  result: ProcessReplayResponse | null;
+  createdAt: string;
+  updatedAt: string;
 };